@@ -1,5 +1,9 @@
 import { expect } from 'chai';
+import { readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { CLI } from './cli';
+import { Diagnostic } from './interfaces';
 
 describe('CLI', () => {
 
@@ -59,25 +63,65 @@ describe('CLI', () => {
         it('--infile and --outfile set the input / output file', async () => {
             await cli.main(['--infile', 'api.raml', '--outfile', 'models.ts']);
             expect(calls).to.deep.equal(['generate']);
-            expect(callArgs[0]).to.deep.equal(['api.raml', 'models.ts', false]);
+            expect(callArgs[0]).to.deep.equal(['api.raml', 'models.ts', false, {}]);
         });
 
         it('-i and -o set the input / output file', async () => {
             await cli.main(['-i', 'api.raml', '-o', 'models.ts']);
             expect(calls).to.deep.equal(['generate']);
-            expect(callArgs[0]).to.deep.equal(['api.raml', 'models.ts', false]);
+            expect(callArgs[0]).to.deep.equal(['api.raml', 'models.ts', false, {}]);
         });
 
         it('--infile can be omitted', async () => {
             await cli.main(['api.raml', '--outfile', 'models.ts']);
             expect(calls).to.deep.equal(['generate']);
-            expect(callArgs[0]).to.deep.equal(['api.raml', 'models.ts', false]);
+            expect(callArgs[0]).to.deep.equal(['api.raml', 'models.ts', false, {}]);
         });
 
         it('--verbose enables verbose output', async () => {
             await cli.main(['--verbose', '--infile', 'api.raml', '--outfile', 'models.ts']);
             expect(calls).to.deep.equal(['generate']);
-            expect(callArgs[0]).to.deep.equal(['api.raml', 'models.ts', true]);
+            expect(callArgs[0]).to.deep.equal(['api.raml', 'models.ts', true, {}]);
+        });
+
+        it('--strict enables the strict mode of the parser', async () => {
+            await cli.main(['--strict', '--infile', 'api.raml', '--outfile', 'models.ts']);
+            expect(calls).to.deep.equal(['generate']);
+            expect(callArgs[0]).to.deep.equal(['api.raml', 'models.ts', false, { strict: true }]);
+        });
+
+        it('--model-conflicts sets the strategy for conflicting models', async () => {
+            await cli.main(['--model-conflicts', 'merge', '--infile', 'api.raml', '--outfile', 'models.ts']);
+            expect(calls).to.deep.equal(['generate']);
+            expect(callArgs[0]).to.deep.equal(['api.raml', 'models.ts', false, { modelConflicts: 'merge' }]);
+        });
+
+        it('--model-conflicts with an unknown strategy outputs the help', async () => {
+            await cli.main(['--model-conflicts', 'last', '--infile', 'api.raml', '--outfile', 'models.ts']);
+            expect(calls).to.deep.equal(['showHelp']);
+        });
+
+        it('--schemas adds files with Mesh schemas', async () => {
+            await cli.main(['--schemas', 'schemas.json', '--schemas', 'microschemas.json', 'api.raml', '-o', 'models.ts']);
+            expect(calls).to.deep.equal(['generate']);
+            expect(callArgs[0]).to.deep.equal(['api.raml', 'models.ts', false, { schemas: ['schemas.json', 'microschemas.json'] }]);
+        });
+
+        it('--plugin adds plugin modules', async () => {
+            await cli.main(['--plugin', './add-header.js', '--plugin', 'mesh-plugin-zod', 'api.raml', '-o', 'models.ts']);
+            expect(calls).to.deep.equal(['generate']);
+            expect(callArgs[0]).to.deep.equal(['api.raml', 'models.ts', false, { plugins: ['./add-header.js', 'mesh-plugin-zod'] }]);
+        });
+
+        it('--renderer and --outdir set the output format and directory', async () => {
+            await cli.main(['--renderer', 'json-schema', '--outdir', 'schemas', 'api.raml']);
+            expect(calls).to.deep.equal(['generate']);
+            expect(callArgs[0]).to.deep.equal(['api.raml', 'schemas', false, { renderer: 'json-schema', outdir: 'schemas' }]);
+        });
+
+        it('--renderer with an unknown format outputs the help', async () => {
+            await cli.main(['--renderer', 'xml', 'api.raml', '-o', 'models.xml']);
+            expect(calls).to.deep.equal(['showHelp']);
         });
 
         it('--stdin and --stdout set the input / output', async () => {
@@ -152,4 +196,51 @@ describe('CLI', () => {
 
     });
 
+    describe('generate()', () => {
+
+        const inputFile = join(tmpdir(), `mesh-model-generator-cli-${process.pid}.json`);
+        const outputFile = inputFile.replace(/\.json$/, '.ts');
+        let cli: CLI;
+        let shownDiagnostics: Diagnostic[];
+        beforeEach(() => {
+            cli = new CLI();
+            shownDiagnostics = [];
+            cli.showDiagnostics = diagnostics => { shownDiagnostics.push(...diagnostics); };
+        });
+        afterEach(() => {
+            process.exitCode = 0;
+            for (let file of [inputFile, outputFile]) {
+                try {
+                    unlinkSync(file);
+                } catch (ignored) { }
+            }
+        });
+
+        const writeDocument = (userSchema: any) => writeFileSync(inputFile, JSON.stringify({
+            openapi: '3.0.1',
+            info: { version: '1.0.0' },
+            components: {
+                schemas: {
+                    UserResponse: { type: 'object', properties: { creator: userSchema } }
+                }
+            }
+        }));
+
+        it('sets the exit code when the input has errors', async () => {
+            writeDocument({ $ref: '#/components/schemas/UserReference' });
+            await cli.generate(inputFile, outputFile);
+            expect(shownDiagnostics.map(diagnostic => diagnostic.code)).to.deep.equal(['unresolved-reference']);
+            expect(process.exitCode).to.equal(1);
+            expect(readFileSync(outputFile, 'utf8')).to.contain('export interface UserResponse {');
+        });
+
+        it('does not set the exit code when the input has no errors', async () => {
+            writeDocument({ type: 'string' });
+            await cli.generate(inputFile, outputFile);
+            expect(shownDiagnostics).to.deep.equal([]);
+            expect(process.exitCode).not.to.equal(1);
+        });
+
+    });
+
 });
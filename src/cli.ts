@@ -5,33 +5,84 @@
 //     $ mesh-model-generator api.raml > interfaces.ts
 //
 
+import { basename, dirname, join } from 'path';
 import colors from './utils/colored-console';
 import { unindent } from './utils/unindent';
-import { readFile, readStreamToEnd, writeFile, writeToStream } from './utils/node-core-as-promise';
-import { MeshRamlParser } from './parser';
-import { TypescriptModelRenderer } from './renderers/typescript-renderer';
+import { makeDirectory, readFile, readStreamToEnd, writeFile, writeToStream } from './utils/node-core-as-promise';
+import { createParser, detectInputFormat } from './input-format';
+import { Diagnostic } from './interfaces';
+import { MeshSchemaParser } from './mesh-schema-parser';
+import { ParserOptions } from './parser';
+import { loadPlugin, PluginPipeline } from './plugins';
+import { createRenderer, defaultFileName, OutputFormat, outputFormats } from './renderers';
 
 // File was loaded from the command line, not required from another module.
 const isRunFromCommandLine = require.main === module;
 
+export interface GenerateOptions {
+    /** Fail on the first error in the input instead of reporting all problems. */
+    strict?: boolean;
+    /** How to handle schemas which use the same id for different structures. */
+    modelConflicts?: ParserOptions['modelConflicts'];
+    /** Files with Mesh schema / microschema JSON, used to generate typed node fields. */
+    schemas?: string[];
+    /** Modules of plugins which transform the parsed models or the output, see {@link GeneratorPlugin}. */
+    plugins?: string[];
+    /** The output format, TypeScript interfaces by default. */
+    renderer?: OutputFormat;
+    /** Write one file per model into this directory, if the renderer supports it. */
+    outdir?: string;
+}
+
+const modelConflictStrategies: Array<ParserOptions['modelConflicts']> = ['first', 'merge', 'fail'];
+
 export class CLI {
-    async generate(input: string | NodeJS.ReadableStream, output: string | NodeJS.WritableStream, verbose = false) {
+    async generate(input: string | NodeJS.ReadableStream, output: string | NodeJS.WritableStream, verbose = false, options: GenerateOptions = {}) {
         const inputData = await (typeof input === 'string' ? readFile(input) : readStreamToEnd(input));
         const logStream = verbose && (output === process.stdout) ? process.stderr : process.stdout;
 
-        const parser = new MeshRamlParser();
-        const renderer = new TypescriptModelRenderer();
-        const raml = await parser.parseRAML(inputData);
+        const parserOptions: Partial<ParserOptions> = { strict: !!options.strict };
+        if (options.modelConflicts) {
+            parserOptions.modelConflicts = options.modelConflicts;
+        }
+        const pipeline = new PluginPipeline((options.plugins || []).map(loadPlugin));
+        const parser = createParser(detectInputFormat(inputData), parserOptions);
+        const format = options.renderer || 'typescript';
+        const renderer = createRenderer(format);
+        const raml = await parser.parseRAML(inputData, typeof input === 'string' ? input : undefined);
+        for (let schemaFile of options.schemas || []) {
+            const schemaParser = new MeshSchemaParser(parserOptions);
+            schemaParser.baseModels = raml.models;
+            const parsedSchemas = await schemaParser.parseRAML(await readFile(schemaFile), schemaFile);
+            Object.assign(raml.models, parsedSchemas.models);
+            raml.diagnostics = (raml.diagnostics || []).concat(parsedSchemas.diagnostics || []);
+        }
+        this.showDiagnostics(raml.diagnostics || []);
+        if ((raml.diagnostics || []).some(diagnostic => diagnostic.severity === 'error')) {
+            // The output is still generated, but scripts can detect the errors in the input
+            process.exitCode = 1;
+        }
 
         if (verbose) {
             // TODO output models
         }
 
-        const rendered = await renderer.renderAll(raml);
-        if (typeof output === 'string') {
-            await writeFile(output, rendered)
-        } else {
-            await writeToStream(output, rendered);
+        const parsed = await pipeline.transformParsed(raml);
+        const rendered = options.outdir && renderer.renderFiles
+            ? await renderer.renderFiles(parsed)
+            : { [typeof output === 'string' && !options.outdir ? basename(output) : defaultFileName(format)]: await renderer.renderAll(parsed) };
+        const files = await pipeline.transformFiles(rendered);
+
+        const outputDirectory = options.outdir || (typeof output === 'string' ? dirname(output) : undefined);
+        if (outputDirectory) {
+            if (options.outdir) {
+                await makeDirectory(options.outdir);
+            }
+            for (let fileName of Object.keys(files)) {
+                await writeFile(join(outputDirectory, fileName), files[fileName]);
+            }
+        } else if (typeof output !== 'string') {
+            await writeToStream(output, Object.keys(files).map(fileName => files[fileName]).join('\n'));
         }
 
         if (verbose) {
@@ -39,6 +90,18 @@ export class CLI {
         }
     }
 
+    /** Print the problems found in the input. */
+    showDiagnostics(diagnostics: Diagnostic[], outputStream = process.stderr): void {
+        const { gray, red, yellow } = colors.for(outputStream);
+        for (let diagnostic of diagnostics) {
+            const severity = diagnostic.severity === 'error' ? red `error` : yellow `warning`;
+            const { location } = diagnostic;
+            const position = location ? `${location.file || '<stdin>'}:${location.line}:${location.column}: ` : '';
+            const path = diagnostic.path.length ? gray ` (at ${diagnostic.path.join(' > ')})` : '';
+            outputStream.write(`${position}${severity} ${diagnostic.code}: ${diagnostic.message}${path}\n`);
+        }
+    }
+
     showHelp(outputStream = process.stdout): void {
         const { gray, blue, bold } = colors.for(outputStream);
         outputStream.write(unindent `
@@ -56,6 +119,13 @@ export class CLI {
               --outfile, -o    ${gray `Set the path of the output file.`}
               --stdin, -I      ${gray `Read from standard input instead of a file.`}
               --stdout, -O     ${gray `Write to standard output instead of a file.`}
+              --strict         ${gray `Fail on the first error instead of reporting all problems.`}
+              --model-conflicts first|merge|fail
+                               ${gray `Keep the first, merge or fail for different schemas with the same id.`}
+              --schemas        ${gray `Generate typed node fields from a file with Mesh schema JSON.`}
+              --plugin         ${gray `Load a plugin module which transforms the models or output.`}
+              --renderer       ${gray `Set the output format:`} ${outputFormats.join(', ')} ${gray `(default: typescript)`}
+              --outdir         ${gray `Write one file per model into a directory (json-schema).`}
               --verbose        ${gray `Output a list of all found models.`}
 
         `);
@@ -76,6 +146,7 @@ export class CLI {
             let inFile: string | NodeJS.ReadableStream | undefined;
             let outFile: string | NodeJS.WritableStream | undefined;
             let verbose = false;
+            const options: GenerateOptions = {};
 
             const argc = args.length;
             let invalid = false;
@@ -115,6 +186,46 @@ export class CLI {
                     case '--verbose':
                         verbose = true;
                         break;
+                    case '--strict':
+                        options.strict = true;
+                        break;
+                    case '--model-conflicts':
+                        const strategy = args[++index] as ParserOptions['modelConflicts'];
+                        if (modelConflictStrategies.indexOf(strategy) < 0) {
+                            invalid = true;
+                        } else {
+                            options.modelConflicts = strategy;
+                        }
+                        break;
+                    case '--schemas':
+                        if (index + 1 >= argc) {
+                            invalid = true;
+                        } else {
+                            options.schemas = (options.schemas || []).concat(args[++index]);
+                        }
+                        break;
+                    case '--plugin':
+                        if (index + 1 >= argc) {
+                            invalid = true;
+                        } else {
+                            options.plugins = (options.plugins || []).concat(args[++index]);
+                        }
+                        break;
+                    case '--renderer':
+                        const format = args[++index] as OutputFormat;
+                        if (outputFormats.indexOf(format) < 0) {
+                            invalid = true;
+                        } else {
+                            options.renderer = format;
+                        }
+                        break;
+                    case '--outdir':
+                        if (index + 1 >= argc) {
+                            invalid = true;
+                        } else {
+                            options.outdir = args[++index];
+                        }
+                        break;
                     case '--':
                         endParsing = true;
                         if (index + 2 !== argc || inFile) {
@@ -136,6 +247,10 @@ export class CLI {
                 inFile = process.stdin;
             }
 
+            if (!outFile && options.outdir) {
+                outFile = options.outdir;
+            }
+
             if (!outFile && !(process.stdout as any).isTTY) {
                 outFile = process.stdout;
             }
@@ -151,7 +266,7 @@ export class CLI {
                 }
             } else {
                 // Called with valid arguments
-                return this.generate(inFile, outFile, verbose);
+                return this.generate(inFile, outFile, verbose, options);
             }
         }
     }
@@ -0,0 +1,29 @@
+import { dirname, resolve as resolvePath } from 'path';
+import { readFile } from './utils/node-core-as-promise';
+
+/**
+ * Loads the files referenced by `!include` tags and RAML 1.0 libraries.
+ * Can be replaced to load RAML trees from other sources than the local file system, e.g. in tests.
+ */
+export interface FileResolver {
+    /**
+     * Resolves the path of a referenced file.
+     * @param path The path as written in the referencing file, e.g. "schemas/user.json"
+     * @param referencedFrom The resolved path of the referencing file, or an empty string for the root file.
+     */
+    resolvePath(path: string, referencedFrom: string): string;
+
+    /** Reads a file by its resolved path. */
+    readFile(resolvedPath: string): Promise<string>;
+}
+
+/** Resolves files relative to the referencing file on the local file system. */
+export class LocalFileResolver implements FileResolver {
+    resolvePath(path: string, referencedFrom: string): string {
+        return referencedFrom ? resolvePath(dirname(referencedFrom), path) : resolvePath(path);
+    }
+
+    readFile(resolvedPath: string): Promise<string> {
+        return readFile(resolvedPath);
+    }
+}
@@ -1,3 +1,9 @@
-export { MeshRamlParser } from './parser';
+export { MeshRamlParser, ParserOptions } from './parser';
+export { FileResolver, LocalFileResolver } from './file-resolver';
+export { Raml10Parser } from './raml10-parser';
+export { OpenApiParser } from './openapi-parser';
+export { MeshSchemaParser } from './mesh-schema-parser';
+export { createParser, detectInputFormat, InputFormat } from './input-format';
 export { parseAndGenerate } from './parse-and-generate';
-export { TypescriptModelRenderer } from './renderers/typescript-renderer';
+export { GeneratorPlugin, loadPlugin, OutputFiles, PluginPipeline } from './plugins';
+export { AngularServiceRenderer, ApiClientRenderer, createRenderer, JsonSchemaRenderer, OutputFormat, TypescriptModelRenderer, ZodRenderer } from './renderers';
@@ -0,0 +1,47 @@
+import { expect } from 'chai';
+import { createParser, detectInputFormat } from './input-format';
+import { OpenApiParser } from './openapi-parser';
+import { MeshRamlParser } from './parser';
+import { Raml10Parser } from './raml10-parser';
+
+describe('detectInputFormat()', () => {
+
+    it('detects RAML 1.0 by the document header', () => {
+        expect(detectInputFormat('#%RAML 1.0\ntitle: API')).to.equal('raml10');
+    });
+
+    it('detects RAML 0.8 by the document header', () => {
+        expect(detectInputFormat('#%RAML 0.8\ntitle: API')).to.equal('raml08');
+    });
+
+    it('detects OpenAPI 3 documents in YAML', () => {
+        expect(detectInputFormat('openapi: 3.0.1\ninfo:\n  title: API')).to.equal('openapi3');
+        expect(detectInputFormat('info:\n  title: API\nopenapi: "3.0.1"')).to.equal('openapi3');
+    });
+
+    it('detects OpenAPI 3 documents in JSON', () => {
+        expect(detectInputFormat('{"openapi":"3.0.1","info":{"title":"API"}}')).to.equal('openapi3');
+        expect(detectInputFormat('{\n  "info": {},\n  "openapi": "3.0.1"\n}')).to.equal('openapi3');
+    });
+
+    it('defaults to RAML 0.8', () => {
+        expect(detectInputFormat('title: API')).to.equal('raml08');
+    });
+
+});
+
+describe('createParser()', () => {
+
+    it('creates a parser for the input format', () => {
+        expect(createParser('raml08')).to.be.instanceOf(MeshRamlParser);
+        expect(createParser('raml08')).not.to.be.instanceOf(Raml10Parser);
+        expect(createParser('raml10')).to.be.instanceOf(Raml10Parser);
+        expect(createParser('openapi3')).to.be.instanceOf(OpenApiParser);
+    });
+
+    it('passes the parser options', () => {
+        expect(createParser('raml10', { strict: true }).options.strict).to.equal(true);
+        expect(createParser('openapi3').options.strict).to.equal(false);
+    });
+
+});
@@ -0,0 +1,33 @@
+import { OpenApiParser } from './openapi-parser';
+import { MeshRamlParser, ParserOptions } from './parser';
+import { Raml10Parser } from './raml10-parser';
+
+/** Input formats which can be parsed by the model generator. */
+export type InputFormat = 'openapi3' | 'raml08' | 'raml10';
+
+/**
+ * Detects the format of an input document by its header, e.g. "#%RAML 1.0",
+ * or the "openapi" version field of OpenAPI documents in YAML or JSON.
+ */
+export function detectInputFormat(input: string): InputFormat {
+    const text = input.replace(/^\uFEFF/, '');
+    const header = text.match(/^\s*#%RAML\s+(\d+\.\d+)/);
+    if (header && header[1] === '1.0') {
+        return 'raml10';
+    } else if (!header && /(^|[{,])\s*["']?openapi["']?\s*:\s*["']?3\./m.test(text)) {
+        return 'openapi3';
+    }
+    return 'raml08';
+}
+
+/** Creates a parser for the passed input format. */
+export function createParser(format: InputFormat, options?: Partial<ParserOptions>): MeshRamlParser {
+    switch (format) {
+        case 'openapi3':
+            return new OpenApiParser(options);
+        case 'raml10':
+            return new Raml10Parser(options);
+        default:
+            return new MeshRamlParser(options);
+    }
+}
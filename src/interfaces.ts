@@ -3,7 +3,11 @@ export interface ArrayProperty {
     description?: string;
     example?: any[];
     required?: boolean;
+    /** The value can be `null`, independently from being optional via `required`. */
+    nullable?: boolean;
     items: PropertyDefinition;
+    minItems?: number;
+    maxItems?: number;
 }
 
 export interface CombinedResponseInfo {
@@ -18,13 +22,23 @@ export interface RequestBody {
     example?: string;
 }
 
+/** Request or response bodies by their media type, e.g. "application/json" or "image/png" */
+export interface BodyMap {
+    [mimeType: string]: RequestBody;
+}
+
 export interface Endpoint {
     method: RequestMethod;
     url: string;
     description: string;
+    /** The JSON or form body of the request, or the first body for other media types. */
     requestBody?: RequestBody;
+    /** All accepted request bodies by media type. */
+    requestBodies?: BodyMap;
     urlParameters?: UrlParameterMap;
     queryParameters?: QueryParameterMap;
+    /** Request headers, e.g. "If-None-Match" */
+    headers?: HeaderMap;
     responses: ResponseMap;
 }
 
@@ -32,6 +46,10 @@ export interface FormPartMap {
     [name: string]: FormFilePart | Parameter;
 }
 
+export interface HeaderMap {
+    [name: string]: Parameter;
+}
+
 export interface ModelMap {
     [name: string]: PropertyDefinition;
 }
@@ -48,6 +66,8 @@ export interface Parameter {
     required: boolean;
     repeat: boolean;
     example?: string;
+    /** Allowed values of the parameter */
+    enum?: string[];
 }
 
 export interface FormFilePart {
@@ -62,6 +82,8 @@ export interface ObjectProperty {
     description?: string;
     example?: any;
     required?: boolean;
+    /** The value can be `null`, independently from being optional via `required`. */
+    nullable?: boolean;
     id: string;
     $ref?: string;
     properties: {
@@ -69,6 +91,12 @@ export interface ObjectProperty {
     };
     /** Defines the property it is assigned on as a hash of the described type */
     additionalProperties?: PropertyDefinition;
+    /** Set when the object was declared inline without an id and the parser generated its id. */
+    inline?: boolean;
+    /** Ids of the models this object inherits from (via `allOf` or RAML type inheritance), rendered as `extends`. */
+    extends?: string[];
+    /** Set by the parser when the model references itself directly or via other models, e.g. node trees. */
+    recursive?: boolean;
 }
 
 export interface ParsedMeshRAML {
@@ -85,6 +113,29 @@ export interface ParsedMeshRAML {
 
     /** The mesh version the RAML was generated from. */
     version: string;
+
+    /** Problems found while parsing the RAML. Set by the parser, empty for a valid document. */
+    diagnostics?: Diagnostic[];
+}
+
+/** A problem in the parsed document, which the parser worked around instead of failing. */
+export interface Diagnostic {
+    severity: 'error' | 'warning';
+    /** Machine-readable kind of the problem, e.g. "missing-uri-parameter" */
+    code: string;
+    message: string;
+    /** Path of the offending node in the document, e.g. ["/users/{userUuid}", "get", "responses", "200"] */
+    path: string[];
+    /** Position of the offending node in the source file, when the document was parsed from YAML. */
+    location?: SourceLocation;
+}
+
+/** A position in a source file. Lines and columns start at 1. */
+export interface SourceLocation {
+    /** Path of the file, or an empty string for documents parsed without a filename. */
+    file: string;
+    line: number;
+    column: number;
 }
 
 export type RequestMethod = 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE';
@@ -93,6 +144,7 @@ export type RequestMethod = 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE';
 export interface RequestSchemaInRAML {
     description: string;
     queryParameters?: QueryParameterMap;
+    headers?: HeaderMap;
     body: {
         'application/json': {
             schema: string;
@@ -106,6 +158,7 @@ export interface RequestSchemaInRAML {
     responses: {
         [status: number]: {
             description: string;
+            headers?: HeaderMap;
             body: {
                 'application/json': {
                     schema: string;
@@ -121,9 +174,47 @@ export interface PrimitiveProperty {
     description?: string;
     example?: any;
     required?: boolean;
+    /** The value can be `null`, independently from being optional via `required`. */
+    nullable?: boolean;
+    /** Allowed values of the property as declared in the JSON schema */
+    enum?: Array<string | number | boolean>;
+    /** Semantic format of the value, e.g. "date-time", "uuid" or "email" */
+    format?: string;
+    /** Regular expression the value must match */
+    pattern?: string;
+    minimum?: number;
+    maximum?: number;
+    minLength?: number;
+    maxLength?: number;
+}
+
+/** A value that matches one of multiple schemas, declared via `oneOf`, `anyOf` or a RAML union type. */
+export interface UnionProperty {
+    type: 'union';
+    description?: string;
+    example?: any;
+    required?: boolean;
+    /** The value can be `null`, independently from being optional via `required`. */
+    nullable?: boolean;
+    variants: PropertyDefinition[];
+    /** Name of the property whose value identifies the variant, e.g. "type" */
+    discriminator?: string;
+    /** Discriminator value of each variant when the variants do not declare it as enum themselves. */
+    discriminatorValues?: Array<string | undefined>;
+}
+
+/** A value that matches all of multiple schemas, declared via `allOf` of schemas which are not all objects. */
+export interface IntersectionProperty {
+    type: 'intersection';
+    description?: string;
+    example?: any;
+    required?: boolean;
+    /** The value can be `null`, independently from being optional via `required`. */
+    nullable?: boolean;
+    members: PropertyDefinition[];
 }
 
-export type PropertyDefinition = PrimitiveProperty | ArrayProperty | ObjectProperty;
+export type PropertyDefinition = PrimitiveProperty | ArrayProperty | ObjectProperty | UnionProperty | IntersectionProperty;
 
 /** Parsed API response */
 export interface Response {
@@ -131,6 +222,10 @@ export interface Response {
     responseBodySchema?: PropertyDefinition;
     /** Example response body if provided in the raml. Result of parsing the example as JSON. */
     responseBodyExample?: any;
+    /** All response bodies by media type, including non-JSON bodies like binary downloads. */
+    bodies?: BodyMap;
+    /** Response headers, e.g. "ETag" or "Location" */
+    headers?: HeaderMap;
 }
 
 export interface ResponseMap {
@@ -140,6 +235,7 @@ export interface ResponseMap {
 export interface ResponseMapYaml {
     [statusCode: number]: {
         description: string;
+        headers?: HeaderMap;
         body: {
             'application/json': {
                 /** JSON schema that can be parsed to a PropertyDefinition */
@@ -0,0 +1,148 @@
+import { expect } from 'chai';
+import { MeshSchemaParser } from './mesh-schema-parser';
+import { ObjectProperty } from './interfaces';
+import { TypescriptModelRenderer } from './renderers/typescript-renderer';
+import { unindent } from './utils/unindent';
+
+
+describe('MeshSchemaParser', () => {
+
+    let parser: MeshSchemaParser;
+    beforeEach(() => {
+        parser = new MeshSchemaParser();
+        parser.baseModels = {
+            'urn:jsonschema:com:gentics:mesh:core:rest:node:NodeResponse': {
+                type: 'object',
+                id: 'urn:jsonschema:com:gentics:mesh:core:rest:node:NodeResponse',
+                properties: {}
+            },
+            MicronodeResponse: { type: 'object', id: 'MicronodeResponse', properties: {} }
+        };
+    });
+
+    const article = {
+        name: 'article',
+        description: 'A news article',
+        container: false,
+        displayField: 'title',
+        fields: [
+            { name: 'title', label: 'Title', type: 'string', required: true },
+            { name: 'category', type: 'string', allow: ['news', 'sports'] },
+            { name: 'teaser', type: 'html' },
+            { name: 'published', type: 'date' },
+            { name: 'rating', type: 'number' },
+            { name: 'featured', type: 'boolean' },
+            { name: 'image', type: 'node', allow: ['image'] },
+            { name: 'tags', type: 'list', listType: 'node' },
+            { name: 'author', type: 'micronode', allow: ['vcard'] },
+            { name: 'download', type: 'binary' }
+        ]
+    };
+
+    const vcard = {
+        name: 'vcard',
+        fields: [
+            { name: 'firstName', type: 'string', required: true },
+            { name: 'lastName', type: 'string', required: true }
+        ]
+    };
+
+    it('converts schemas to field models and node models', async () => {
+        const result = await parser.parseRAML({ data: [article] });
+        expect(Object.keys(result.models)).to.deep.equal(['NodeField', 'BinaryField', 'ArticleFields', 'ArticleNode']);
+        expect(result.models['ArticleNode']).to.deep.equal({
+            type: 'object',
+            id: 'ArticleNode',
+            description: 'A news article',
+            extends: ['urn:jsonschema:com:gentics:mesh:core:rest:node:NodeResponse'],
+            properties: {
+                fields: { type: 'object', $ref: 'ArticleFields', required: true }
+            }
+        });
+
+        const fields = (result.models['ArticleFields'] as ObjectProperty).properties;
+        expect(fields['title']).to.deep.equal({ type: 'string', required: true, description: 'Title' });
+        expect(fields['category']).to.deep.equal({ type: 'string', enum: ['news', 'sports'], required: false });
+        expect(fields['teaser']).to.deep.equal({ type: 'string', required: false });
+        expect(fields['published']).to.deep.equal({ type: 'string', format: 'date-time', required: false });
+        expect(fields['rating']).to.deep.equal({ type: 'number', required: false });
+        expect(fields['featured']).to.deep.equal({ type: 'boolean', required: false });
+        expect(fields['image']).to.deep.equal({ type: 'object', $ref: 'NodeField', description: 'Allowed schemas: image', required: false });
+        expect(fields['tags']).to.deep.equal({ type: 'array', items: { type: 'object', $ref: 'NodeField' }, required: false });
+        expect(fields['author']).to.deep.equal({ type: 'object', $ref: 'MicronodeResponse', required: false });
+        expect(fields['download']).to.deep.equal({ type: 'object', $ref: 'BinaryField', required: false });
+        expect(result.diagnostics).to.deep.equal([]);
+    });
+
+    it('references the micronode models of allowed microschemas', async () => {
+        const result = await parser.parseRAML({ schemas: [article], microschemas: [vcard] });
+        expect(result.models['VcardMicronode']).to.deep.equal({
+            type: 'object',
+            id: 'VcardMicronode',
+            extends: ['MicronodeResponse'],
+            properties: {
+                fields: { type: 'object', $ref: 'VcardFields', required: true }
+            }
+        });
+        const fields = (result.models['ArticleFields'] as ObjectProperty).properties;
+        expect(fields['author']).to.deep.equal({ type: 'object', $ref: 'VcardMicronode', required: false });
+    });
+
+    it('distinguishes schemas and microschemas in a list by the container flag', async () => {
+        const result = await parser.parseRAML(JSON.stringify([vcard, article]));
+        expect(result.models).to.have.property('VcardMicronode');
+        expect(result.models).to.have.property('ArticleNode');
+    });
+
+    it('reports invalid schemas and unknown field types', async () => {
+        const json = JSON.stringify({
+            data: [
+                { name: 'broken' },
+                { name: 'page', container: true, fields: [{ name: 'map', type: 'geolocation' }] }
+            ]
+        }, undefined, 4);
+        const result = await parser.parseRAML(json, 'schemas.json');
+        expect(result.diagnostics!.map(d => `${d.location!.line}:${d.location!.column} ${d.code}: ${d.message}`)).to.deep.equal([
+            '3:9 invalid-schema: Expected a schema with "name" and "fields"',
+            '10:17 unknown-field-type: Unknown field type "geolocation" of field "map"'
+        ]);
+        expect((result.models['PageFields'] as ObjectProperty).properties['map']).to.deep.equal({ type: 'any', required: false });
+    });
+
+    it('reports base models which are not declared in the API and does not reference them', async () => {
+        parser.baseModels = {};
+        const result = await parser.parseRAML({ data: [article] });
+        expect(result.models['ArticleNode']).to.deep.equal({
+            type: 'object',
+            id: 'ArticleNode',
+            description: 'A news article',
+            properties: {
+                fields: { type: 'object', $ref: 'ArticleFields', required: true }
+            }
+        });
+        expect((result.models['ArticleFields'] as ObjectProperty).properties['author']).to.deep.equal({ type: 'any', required: false });
+        expect(result.diagnostics!.map(d => `${d.severity} ${d.code}: ${d.message}`)).to.deep.equal([
+            'warning missing-base-model: Model "MicronodeResponse" is not declared in the API, the parsed models do not reference it',
+            'warning missing-base-model: Model "NodeResponse" is not declared in the API, the parsed models do not reference it'
+        ]);
+    });
+
+    it('renders node types with typed fields', async () => {
+        const result = await parser.parseRAML([vcard, article]);
+        const renderer = new TypescriptModelRenderer();
+        const rendered = await renderer.generateInterfaces(result, () => true);
+        expect(rendered).to.contain(unindent `
+            /** A news article */
+            export interface ArticleNode extends NodeResponse {
+                fields: ArticleFields;
+            }
+        `);
+        expect(rendered).to.contain(unindent `
+            export interface VcardFields {
+                firstName: string;
+                lastName: string;
+            }
+        `);
+    });
+
+});
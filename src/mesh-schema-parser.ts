@@ -0,0 +1,252 @@
+import { Endpoint, ModelMap, ObjectProperty, PrimitiveProperty, PropertyDefinition } from './interfaces';
+import { MeshRamlParser } from './parser';
+import { pascalCase } from './utils/pascal-case';
+
+
+/** Field types of Mesh schemas which are returned as primitive values. */
+const primitiveFieldTypes: { [fieldType: string]: PropertyDefinition } = {
+    string: { type: 'string' },
+    html: { type: 'string' },
+    number: { type: 'number' },
+    boolean: { type: 'boolean' },
+    date: { type: 'string', format: 'date-time' }
+};
+
+/** Models of field values shared by all schemas, added to the model hash when a schema uses them. */
+const sharedFieldModels: { [id: string]: () => ObjectProperty } = {
+    NodeField: () => ({
+        type: 'object',
+        id: 'NodeField',
+        description: 'Reference to a node, contains all node properties if the field is expanded.',
+        properties: {
+            uuid: { type: 'string', required: true },
+            path: { type: 'string', required: false },
+            languagePaths: { type: 'object', required: false, properties: {}, additionalProperties: { type: 'string' } } as ObjectProperty
+        }
+    }),
+    BinaryField: () => ({
+        type: 'object',
+        id: 'BinaryField',
+        description: 'Metadata of an uploaded binary.',
+        properties: {
+            binaryUuid: { type: 'string', required: true },
+            fileName: { type: 'string', required: true },
+            fileSize: { type: 'number', required: true },
+            mimeType: { type: 'string', required: true },
+            sha512sum: { type: 'string', required: true },
+            width: { type: 'number', required: false },
+            height: { type: 'number', required: false },
+            dominantColor: { type: 'string', required: false }
+        }
+    })
+};
+
+/** A schema or microschema, as exported by Mesh (`SchemaResponse` / `MicroschemaResponse`). */
+interface MeshSchema {
+    name: string;
+    description?: string;
+    /** Only set for schemas, used to distinguish them from microschemas. */
+    container?: boolean;
+    fields: MeshSchemaField[];
+}
+
+interface MeshSchemaField {
+    name: string;
+    label?: string;
+    type: string;
+    required?: boolean;
+    /** Type of the list items of "list" fields. */
+    listType?: string;
+    /** Allowed values of string fields or allowed (micro)schemas of node and micronode fields. */
+    allow?: string[];
+}
+
+/**
+ * Parses Mesh schema and microschema definitions (`SchemaResponse` / `MicroschemaResponse` JSON)
+ * to interfaces of their fields (e.g. `ArticleFields`) and node types with typed fields
+ * (e.g. `ArticleNode extends NodeResponse`). The base models are looked up in {@link baseModels}.
+ *
+ * Accepts a single schema, an array of schemas, a list response (`{ data: [...] }`)
+ * or an object with separate lists (`{ schemas: [...], microschemas: [...] }`).
+ * Schemas and microschemas are distinguished by the `container` flag, which only schemas have.
+ */
+export class MeshSchemaParser extends MeshRamlParser {
+
+    /**
+     * Models of the API, e.g. parsed from its RAML. Node and micronode models only extend `NodeResponse`
+     * and `MicronodeResponse` if they are declared here, otherwise a warning is reported.
+     */
+    public baseModels: ModelMap = {};
+
+    protected getDocumentInfo(document: any): { baseUri: string, version: string } {
+        return { baseUri: '', version: '' };
+    }
+
+    protected async findModelsAndEndpoints(document: any) {
+        const models: ModelMap = {};
+        const endpoints: Endpoint[] = [];
+        const { schemas, microschemas } = this.collectSchemas(document);
+        const microschemaNames = microschemas.map(({ schema }) => schema.name);
+
+        // Microschemas first, micronode fields of schemas reference them
+        for (let { schema, path, node, key } of microschemas) {
+            this.currentPath = path;
+            this.currentLocation = this.locate(node, key);
+            this.convertSchema(schema, 'Micronode', 'MicronodeResponse', microschemaNames, models);
+        }
+        for (let { schema, path, node, key } of schemas) {
+            this.currentPath = path;
+            this.currentLocation = this.locate(node, key);
+            this.convertSchema(schema, 'Node', 'NodeResponse', microschemaNames, models);
+        }
+
+        return { endpoints, models };
+    }
+
+    /** Finds all schemas and microschemas in the document, with the node and key they are declared in. */
+    protected collectSchemas(document: any) {
+        type SchemaEntry = { schema: MeshSchema, path: string[], node: any, key: string | number };
+        const schemas: SchemaEntry[] = [];
+        const microschemas: SchemaEntry[] = [];
+
+        const collect = (list: any[], listPath: string[], isMicroschema?: boolean) => {
+            list.forEach((schema, index) => {
+                const path = [...listPath, String(index)];
+                if (!schema || typeof schema !== 'object' || typeof schema.name !== 'string' || !Array.isArray(schema.fields)) {
+                    this.report('error', 'invalid-schema', 'Expected a schema with "name" and "fields"', path, this.locate(list, index));
+                } else if (isMicroschema === true || (isMicroschema === undefined && !('container' in schema))) {
+                    microschemas.push({ schema, path, node: list, key: index });
+                } else {
+                    schemas.push({ schema, path, node: list, key: index });
+                }
+            });
+        };
+
+        if (Array.isArray(document)) {
+            collect(document, []);
+        } else if (document && (Array.isArray(document.schemas) || Array.isArray(document.microschemas))) {
+            collect(document.schemas || [], ['schemas'], false);
+            collect(document.microschemas || [], ['microschemas'], true);
+        } else if (document && Array.isArray(document.data)) {
+            collect(document.data, ['data']);
+        } else {
+            collect([document], []);
+        }
+
+        return { schemas, microschemas };
+    }
+
+    /**
+     * Converts a schema to the model of its fields and a model of the node or micronode which uses them,
+     * e.g. "article" to `ArticleFields` and `ArticleNode`.
+     */
+    protected convertSchema(schema: MeshSchema, suffix: 'Node' | 'Micronode', baseModel: string,
+            microschemaNames: string[], models: ModelMap): void {
+        const name = pascalCase(schema.name);
+        const fieldsModel: ObjectProperty = {
+            type: 'object',
+            id: name + 'Fields',
+            description: `Fields of the ${suffix === 'Node' ? 'schema' : 'microschema'} "${schema.name}".`,
+            properties: {}
+        };
+
+        const schemaPath = this.currentPath;
+        schema.fields.forEach((field, index) => {
+            this.currentPath = [...schemaPath, 'fields', String(index)];
+            this.currentLocation = this.locate(schema.fields, index);
+            if (!field || typeof field.name !== 'string' || typeof field.type !== 'string') {
+                this.report('error', 'invalid-schema', 'Expected a field with "name" and "type"');
+                return;
+            }
+            const property = this.convertField(field, field.type, microschemaNames, models);
+            property.required = !!field.required;
+            if (field.label && field.label !== field.name && !property.description) {
+                property.description = field.label;
+            }
+            fieldsModel.properties[field.name] = property;
+        });
+        this.currentPath = schemaPath;
+
+        models[fieldsModel.id!] = fieldsModel;
+        const nodeModel: ObjectProperty = {
+            type: 'object',
+            id: name + suffix,
+            properties: {
+                fields: { type: 'object', $ref: fieldsModel.id, required: true } as ObjectProperty
+            }
+        };
+        const baseModelId = this.findBaseModel(baseModel);
+        if (baseModelId) {
+            nodeModel.extends = [baseModelId];
+        }
+        if (schema.description) {
+            nodeModel.description = schema.description;
+        }
+        models[nodeModel.id!] = nodeModel;
+    }
+
+    /** Converts a field of a schema to the type of its value in node responses. */
+    protected convertField(field: MeshSchemaField, fieldType: string, microschemaNames: string[],
+            models: ModelMap): PropertyDefinition {
+        if (fieldType in primitiveFieldTypes) {
+            const property = Object.assign({}, primitiveFieldTypes[fieldType]) as PrimitiveProperty;
+            if (fieldType === 'string' && field.allow && field.allow.length) {
+                property.enum = field.allow.slice();
+            }
+            return property;
+        }
+
+        switch (fieldType) {
+            case 'list':
+                return {
+                    type: 'array',
+                    items: this.convertField(field, field.listType || '', microschemaNames, models)
+                };
+
+            case 'node':
+                return Object.assign(this.useSharedModel('NodeField', models),
+                    field.allow && field.allow.length ? { description: 'Allowed schemas: ' + field.allow.join(', ') } : {});
+
+            case 'binary':
+                return this.useSharedModel('BinaryField', models);
+
+            case 'micronode':
+                const allowed = field.allow || [];
+                if (!allowed.length || allowed.some(name => microschemaNames.indexOf(name) < 0)) {
+                    const micronodeModelId = this.findBaseModel('MicronodeResponse');
+                    return micronodeModelId ? { type: 'object', $ref: micronodeModelId } as ObjectProperty : { type: 'any' };
+                } else if (allowed.length === 1) {
+                    return { type: 'object', $ref: pascalCase(allowed[0]) + 'Micronode' } as ObjectProperty;
+                }
+                return {
+                    type: 'union',
+                    variants: allowed.map(name => ({ type: 'object', $ref: pascalCase(name) + 'Micronode' }) as ObjectProperty)
+                };
+
+            default:
+                this.report('warning', 'unknown-field-type', `Unknown field type "${fieldType}" of field "${field.name}"`);
+                return { type: 'any' };
+        }
+    }
+
+    /**
+     * Returns the id of a model of the API by its name, e.g. "NodeResponse" for
+     * "urn:jsonschema:com:gentics:mesh:core:rest:node:NodeResponse". Reports a warning if the model is not declared.
+     */
+    protected findBaseModel(name: string): string | undefined {
+        const id = Object.keys(this.baseModels).filter(id => id.replace(/^urn:jsonschema:([a-z]+:)*/, '') === name)[0];
+        if (!id) {
+            this.report('warning', 'missing-base-model',
+                `Model "${name}" is not declared in the API, the parsed models do not reference it`, []);
+        }
+        return id;
+    }
+
+    /** Adds a model shared by all schemas to the model hash and returns a reference to it. */
+    private useSharedModel(id: string, models: ModelMap): ObjectProperty {
+        if (!(id in models)) {
+            models[id] = sharedFieldModels[id]();
+        }
+        return { type: 'object', $ref: id } as ObjectProperty;
+    }
+}
@@ -0,0 +1,608 @@
+import { expect } from 'chai';
+import { OpenApiParser } from './openapi-parser';
+import { ArrayProperty, ObjectProperty } from './interfaces';
+import { unindent } from './utils/unindent';
+
+
+describe('OpenApiParser', () => {
+
+    let parser: OpenApiParser;
+    beforeEach(() => {
+        parser = new OpenApiParser();
+    });
+
+    const exampleDocument = {
+        openapi: '3.0.1',
+        info: {
+            title: 'Gentics Mesh REST API',
+            version: '1.2.0'
+        },
+        servers: [
+            { url: 'http://localhost:8080/api/v2' }
+        ],
+        paths: {
+            '/users': {
+                get: {
+                    description: 'Load multiple users.',
+                    parameters: [
+                        { $ref: '#/components/parameters/page' }
+                    ],
+                    responses: {
+                        200: {
+                            description: 'Loaded users.',
+                            content: {
+                                'application/json': {
+                                    schema: { $ref: '#/components/schemas/UserListResponse' }
+                                }
+                            }
+                        },
+                        default: {
+                            description: 'Error'
+                        }
+                    }
+                },
+                post: {
+                    summary: 'Create a new user.',
+                    requestBody: {
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/UserCreateRequest' },
+                                examples: {
+                                    admin: {
+                                        value: { username: 'admin' }
+                                    }
+                                }
+                            }
+                        }
+                    },
+                    responses: {
+                        201: {
+                            description: 'Created user.',
+                            content: {
+                                'application/json': {
+                                    schema: { $ref: '#/components/schemas/UserResponse' },
+                                    example: { uuid: 'some-uuid', username: 'admin' }
+                                }
+                            }
+                        }
+                    }
+                }
+            },
+            '/users/{userUuid}': {
+                parameters: [
+                    {
+                        name: 'userUuid',
+                        in: 'path',
+                        description: 'Uuid of the user',
+                        schema: { type: 'string' }
+                    }
+                ],
+                delete: {
+                    responses: {
+                        204: {
+                            description: 'Deleted the user.'
+                        }
+                    }
+                }
+            }
+        },
+        components: {
+            parameters: {
+                page: {
+                    name: 'page',
+                    in: 'query',
+                    description: 'Number of the page.',
+                    schema: { type: 'integer', default: 1 }
+                }
+            },
+            schemas: {
+                Permission: {
+                    type: 'string',
+                    enum: ['read', 'update']
+                },
+                UserCreateRequest: {
+                    type: 'object',
+                    required: ['username'],
+                    properties: {
+                        username: { type: 'string', minLength: 3 },
+                        password: { type: 'string', format: 'password' }
+                    }
+                },
+                UserResponse: {
+                    type: 'object',
+                    description: 'Response model of a user',
+                    required: ['uuid', 'username'],
+                    properties: {
+                        uuid: { type: 'string' },
+                        username: { type: 'string' },
+                        permissions: {
+                            type: 'array',
+                            items: { $ref: '#/components/schemas/Permission' }
+                        },
+                        properties: {
+                            type: 'object',
+                            additionalProperties: { type: 'string' }
+                        }
+                    }
+                },
+                UserListResponse: {
+                    type: 'object',
+                    required: ['data'],
+                    properties: {
+                        data: {
+                            type: 'array',
+                            items: { $ref: '#/components/schemas/UserResponse' }
+                        }
+                    }
+                }
+            }
+        }
+    };
+
+    it('reads baseUri and version from servers and info', async () => {
+        const result = await parser.parseRAML(exampleDocument);
+        expect(result.baseUri).to.equal('http://localhost:8080/api/v2');
+        expect(result.version).to.equal('1.2.0');
+    });
+
+    it('stores object schemas of the components in the model hash', async () => {
+        const result = await parser.parseRAML(exampleDocument);
+        expect(result.models).to.have.all.keys('UserCreateRequest', 'UserResponse', 'UserListResponse');
+    });
+
+    it('converts the required array to required flags of the properties', async () => {
+        const result = await parser.parseRAML(exampleDocument);
+        expect(result.models['UserCreateRequest']).to.deep.equal({
+            type: 'object',
+            id: 'UserCreateRequest',
+            properties: {
+                username: { type: 'string', minLength: 3, required: true },
+                password: { type: 'string', format: 'password', required: false }
+            }
+        });
+    });
+
+    it('inlines references to non-object schemas', async () => {
+        const result = await parser.parseRAML(exampleDocument);
+        const userResponse = result.models['UserResponse'] as ObjectProperty;
+        expect(userResponse.properties.permissions).to.deep.equal({
+            type: 'array',
+            items: { type: 'string', enum: ['read', 'update'] },
+            required: false
+        });
+        expect(userResponse.properties.properties).to.deep.equal({
+            type: 'object',
+            properties: {},
+            additionalProperties: { type: 'string' },
+            required: false
+        });
+    });
+
+    it('references object schemas via $ref', async () => {
+        const result = await parser.parseRAML(exampleDocument);
+        const listResponse = result.models['UserListResponse'] as ObjectProperty;
+        expect((listResponse.properties.data as ArrayProperty).items).to.deep.equal({
+            type: 'object',
+            $ref: 'UserResponse'
+        });
+    });
+
+    it('converts operations to endpoints', async () => {
+        const result = await parser.parseRAML(exampleDocument);
+        expect(result.endpoints.map(e => e.method + ' ' + e.url)).to.deep.equal([
+            'GET /users',
+            'POST /users',
+            'DELETE /users/{userUuid}'
+        ]);
+        expect(result.endpoints[0].description).to.equal('Load multiple users.');
+        expect(result.endpoints[1].description).to.equal('Create a new user.');
+    });
+
+    it('converts path and query parameters', async () => {
+        const result = await parser.parseRAML(exampleDocument);
+        expect(result.endpoints[0].queryParameters).to.deep.equal({
+            page: {
+                default: '1',
+                description: 'Number of the page.',
+                repeat: false,
+                required: false,
+                type: 'number'
+            }
+        });
+        expect(result.endpoints[2].urlParameters).to.deep.equal({
+            userUuid: {
+                description: 'Uuid of the user',
+                repeat: false,
+                required: true,
+                type: 'string'
+            }
+        });
+    });
+
+    it('converts request bodies and their examples', async () => {
+        const result = await parser.parseRAML(exampleDocument);
+        expect(result.endpoints[1].requestBody).to.deep.equal({
+            mimeType: 'application/json',
+            example: { username: 'admin' },
+            schema: { type: 'object', $ref: 'UserCreateRequest' }
+        });
+    });
+
+    it('converts responses with numeric status codes', async () => {
+        const result = await parser.parseRAML(exampleDocument);
+        expect(result.endpoints[0].responses).to.have.all.keys('200');
+        expect(result.endpoints[1].responses[201]).to.deep.equal({
+            description: 'Created user.',
+            responseBodyExample: { uuid: 'some-uuid', username: 'admin' },
+            responseBodySchema: { type: 'object', $ref: 'UserResponse' },
+            bodies: {
+                'application/json': {
+                    mimeType: 'application/json',
+                    example: { uuid: 'some-uuid', username: 'admin' },
+                    schema: { type: 'object', $ref: 'UserResponse' }
+                }
+            }
+        });
+        expect(result.endpoints[2].responses[204]).to.deep.equal({
+            description: 'Deleted the user.',
+            responseBodyExample: undefined,
+            responseBodySchema: undefined
+        });
+    });
+
+    it('converts multipart/form-data request bodies to form parameters', async () => {
+        const result = await parser.parseRAML({
+            openapi: '3.0.1',
+            paths: {
+                '/upload': {
+                    post: {
+                        requestBody: {
+                            content: {
+                                'multipart/form-data': {
+                                    schema: {
+                                        type: 'object',
+                                        required: ['binary'],
+                                        properties: {
+                                            binary: { type: 'string', format: 'binary' },
+                                            language: { type: 'string' }
+                                        }
+                                    }
+                                }
+                            }
+                        },
+                        responses: {}
+                    }
+                }
+            }
+        });
+        expect(result.endpoints[0].requestBody).to.deep.equal({
+            mimeType: 'multipart/form-data',
+            schema: {
+                type: 'object',
+                required: true,
+                properties: {
+                    binary: { description: '', repeat: false, required: true, type: 'file' },
+                    language: { description: '', repeat: false, required: false, type: 'string' }
+                }
+            }
+        });
+    });
+
+    it('converts header parameters and response headers', async () => {
+        const result = await parser.parseRAML({
+            openapi: '3.0.1',
+            paths: {
+                '/users': {
+                    get: {
+                        parameters: [
+                            { name: 'If-None-Match', in: 'header', schema: { type: 'string' } }
+                        ],
+                        responses: {
+                            200: {
+                                description: 'OK',
+                                headers: {
+                                    ETag: {
+                                        description: 'Version of the response',
+                                        required: true,
+                                        schema: { type: 'string' }
+                                    }
+                                }
+                            }
+                        }
+                    }
+                }
+            }
+        });
+        expect(result.endpoints[0].headers).to.deep.equal({
+            'If-None-Match': { description: '', repeat: false, required: false, type: 'string' }
+        });
+        expect(result.endpoints[0].responses[200].headers).to.deep.equal({
+            ETag: { description: 'Version of the response', repeat: false, required: true, type: 'string' }
+        });
+    });
+
+    it('converts bodies of other media types', async () => {
+        const result = await parser.parseRAML({
+            openapi: '3.0.1',
+            paths: {
+                '/nodes/{nodeUuid}/binary/{fieldName}': {
+                    post: {
+                        requestBody: {
+                            content: {
+                                'application/octet-stream': {
+                                    schema: { type: 'string', format: 'binary' }
+                                }
+                            }
+                        },
+                        responses: {
+                            200: {
+                                description: 'The binary data',
+                                content: {
+                                    'image/png': {},
+                                    'text/plain': { example: 'content' }
+                                }
+                            }
+                        }
+                    }
+                }
+            }
+        });
+        const endpoint = result.endpoints[0];
+        expect(endpoint.requestBody).to.deep.equal({
+            mimeType: 'application/octet-stream',
+            schema: { type: 'string', format: 'binary' }
+        });
+        expect(endpoint.requestBodies).to.have.all.keys('application/octet-stream');
+        expect(endpoint.responses[200].responseBodySchema).to.equal(undefined);
+        expect(endpoint.responses[200].bodies).to.deep.equal({
+            'image/png': { mimeType: 'image/png' },
+            'text/plain': { mimeType: 'text/plain', example: 'content' }
+        });
+    });
+
+    it('converts allOf to objects which extend the referenced schemas', async () => {
+        const result = await parser.parseRAML({
+            openapi: '3.0.1',
+            components: {
+                schemas: {
+                    NodeReference: {
+                        type: 'object',
+                        properties: { uuid: { type: 'string' } }
+                    },
+                    NodeResponse: {
+                        allOf: [{ $ref: '#/components/schemas/NodeReference' }],
+                        properties: { language: { type: 'string' } }
+                    }
+                }
+            }
+        });
+        const model = result.models['NodeResponse'] as ObjectProperty;
+        expect(model.extends).to.deep.equal(['NodeReference']);
+        expect(model.properties).to.have.all.keys('uuid', 'language');
+        expect(model.properties.uuid).to.equal((result.models['NodeReference'] as ObjectProperty).properties.uuid);
+    });
+
+    it('converts oneOf to unions with the values of their discriminator', async () => {
+        const result = await parser.parseRAML({
+            openapi: '3.0.1',
+            components: {
+                schemas: {
+                    Cat: {
+                        type: 'object',
+                        properties: { petType: { type: 'string' }, meows: { type: 'boolean' } }
+                    },
+                    Dog: {
+                        type: 'object',
+                        properties: { petType: { type: 'string', enum: ['dog'] }, barks: { type: 'boolean' } }
+                    },
+                    Pet: {
+                        type: 'object',
+                        properties: {
+                            animal: {
+                                oneOf: [
+                                    { $ref: '#/components/schemas/Cat' },
+                                    { $ref: '#/components/schemas/Dog' },
+                                    { type: 'null' }
+                                ],
+                                discriminator: {
+                                    propertyName: 'petType',
+                                    mapping: { cat: '#/components/schemas/Cat' }
+                                }
+                            }
+                        }
+                    }
+                }
+            }
+        });
+        const pet = result.models['Pet'] as ObjectProperty;
+        expect(pet.properties.animal).to.deep.equal({
+            type: 'union',
+            variants: [
+                { type: 'object', $ref: 'Cat' },
+                { type: 'object', $ref: 'Dog' }
+            ],
+            discriminator: 'petType',
+            discriminatorValues: ['cat', undefined],
+            nullable: true,
+            required: false
+        });
+    });
+
+    it('converts nullable schemas and type arrays with "null"', async () => {
+        const result = await parser.parseRAML({
+            openapi: '3.1.0',
+            components: {
+                schemas: {
+                    NodeResponse: {
+                        type: 'object',
+                        required: ['parentNode', 'editor'],
+                        properties: {
+                            parentNode: {
+                                allOf: [{ $ref: '#/components/schemas/NodeResponse' }],
+                                nullable: true
+                            },
+                            editor: { type: ['string', 'null'] },
+                            displayField: { type: ['string', 'number'] }
+                        }
+                    }
+                }
+            }
+        });
+        const model = result.models['NodeResponse'] as ObjectProperty;
+        expect(model.properties.parentNode).to.deep.equal({ type: 'object', $ref: 'NodeResponse', nullable: true, required: true });
+        expect(model.properties.editor).to.deep.equal({ type: 'string', nullable: true, required: true });
+        expect(model.properties.displayField).to.deep.equal({
+            type: 'union',
+            variants: [{ type: 'string' }, { type: 'number' }],
+            required: false
+        });
+    });
+
+    it('parses documents in YAML', async () => {
+        const result = await parser.parseRAML(unindent `
+            openapi: 3.0.1
+            info:
+              version: 1.0.0
+            paths:
+              /health:
+                get:
+                  responses:
+                    200:
+                      description: OK
+        `);
+        expect(result.version).to.equal('1.0.0');
+        expect(result.endpoints).to.have.lengthOf(1);
+    });
+
+    it('adds the source position of the operation to reference errors in strict mode', async () => {
+        parser = new OpenApiParser({ strict: true });
+        let error: Error | undefined;
+        try {
+            await parser.parseRAML(unindent `
+                openapi: 3.0.1
+                paths:
+                  /users:
+                    get:
+                      parameters:
+                        - $ref: '#/components/parameters/page'
+                      responses: {}
+            `);
+        } catch (err) {
+            error = err;
+        }
+        expect(error!.message).to.equal('OpenApiParser: Can not resolve reference "#/components/parameters/page"'
+            + ' (at paths > /users > get, <input>:4:5)');
+    });
+
+    describe('invalid references', () => {
+
+        const parseWithUserSchema = (userSchema: any) => parser.parseRAML({
+            openapi: '3.0.1',
+            components: {
+                schemas: {
+                    UserResponse: {
+                        type: 'object',
+                        properties: {
+                            uuid: { type: 'string' },
+                            creator: userSchema
+                        }
+                    },
+                    First: { $ref: '#/components/schemas/Second' },
+                    Second: { $ref: '#/components/schemas/First' }
+                }
+            }
+        });
+
+        it('reports unresolvable references and types them as any', async () => {
+            const result = await parseWithUserSchema({ $ref: '#/components/schemas/UserReference' });
+            const model = result.models['UserResponse'] as ObjectProperty;
+            expect(model.properties.creator).to.deep.equal({ type: 'any', required: false });
+            expect(model.properties.uuid).to.deep.equal({ type: 'string', required: false });
+            expect(result.diagnostics!.map(d => d.code + ': ' + d.message)).to.include(
+                'unresolved-reference: Can not resolve reference "#/components/schemas/UserReference"');
+        });
+
+        it('reports external references and types them as any', async () => {
+            const result = await parseWithUserSchema({ $ref: 'users.yaml#/UserReference' });
+            const model = result.models['UserResponse'] as ObjectProperty;
+            expect(model.properties.creator).to.deep.equal({ type: 'any', required: false });
+            expect(result.diagnostics!.map(d => d.code + ': ' + d.message)).to.include(
+                'external-reference: Only local references are supported, found "users.yaml#/UserReference"');
+        });
+
+        it('reports circular references and types them as any', async () => {
+            const result = await parseWithUserSchema({ $ref: '#/components/schemas/First' });
+            const model = result.models['UserResponse'] as ObjectProperty;
+            expect(model.properties.creator).to.deep.equal({ type: 'any', required: false });
+            expect(result.diagnostics!.map(d => d.code + ': ' + d.message)).to.include(
+                'circular-reference: Circular reference "#/components/schemas/First"');
+        });
+
+        it('throws for invalid references in strict mode', async () => {
+            parser = new OpenApiParser({ strict: true });
+            let error: Error | undefined;
+            try {
+                await parseWithUserSchema({ $ref: 'users.yaml#/UserReference' });
+            } catch (err) {
+                error = err;
+            }
+            expect(error!.message).to.contain('Only local references are supported, found "users.yaml#/UserReference"');
+        });
+
+    });
+
+    it('reports non-object schemas which reference themselves', async () => {
+        const result = await parser.parseRAML({
+            openapi: '3.0.1',
+            components: {
+                schemas: {
+                    Tree: {
+                        type: 'object',
+                        properties: {
+                            children: { $ref: '#/components/schemas/TreeList' }
+                        }
+                    },
+                    TreeList: { $ref: '#/components/schemas/NestedList' },
+                    NestedList: {
+                        type: 'array',
+                        items: { $ref: '#/components/schemas/TreeList' }
+                    }
+                }
+            }
+        });
+        const tree = result.models['Tree'] as ObjectProperty;
+        expect(tree.properties.children).to.deep.equal({
+            type: 'array',
+            items: { type: 'any' },
+            required: false
+        });
+        expect(result.diagnostics!.map(d => d.code + ': ' + d.message)).to.include(
+            'circular-reference: Schema "TreeList" contains itself without an object schema in between');
+    });
+
+    it('parses self-referencing schemas', async () => {
+        const result = await parser.parseRAML({
+            openapi: '3.0.1',
+            components: {
+                schemas: {
+                    NavigationElement: {
+                        type: 'object',
+                        properties: {
+                            children: {
+                                type: 'array',
+                                items: { $ref: '#/components/schemas/NavigationElement' }
+                            }
+                        }
+                    }
+                }
+            }
+        });
+        const model = result.models['NavigationElement'] as ObjectProperty;
+        expect((model.properties.children as ArrayProperty).items).to.deep.equal({
+            type: 'object',
+            $ref: 'NavigationElement'
+        });
+        expect(model.recursive).to.equal(true);
+    });
+
+});
@@ -0,0 +1,441 @@
+import { BodyMap, Endpoint, FormPartMap, ModelMap, ObjectProperty, Parameter, PropertyDefinition, RequestBody, Response,
+    ResponseMap } from './interfaces';
+import { MeshRamlParser } from './parser';
+
+
+const requestMethods = ['delete', 'get', 'post', 'patch', 'put'];
+
+/** Keywords of OpenAPI schema objects which are copied to the parsed model. */
+const copiedKeywords = ['description', 'example', 'enum', 'format', 'pattern',
+    'minimum', 'maximum', 'minLength', 'maxLength', 'minItems', 'maxItems'];
+
+const schemaRefPrefix = '#/components/schemas/';
+
+/**
+ * Parses an OpenAPI 3 document (YAML or JSON) for request and response models.
+ * Paths, `components/schemas`, parameters and responses are converted to the same
+ * {@link ParsedMeshRAML} structure as the RAML parsers output.
+ */
+export class OpenApiParser extends MeshRamlParser {
+
+    /** The OpenAPI document that is currently parsed, used to resolve `$ref`s. */
+    protected document: any = {};
+
+    protected getDocumentInfo(document: any): { baseUri: string, version: string } {
+        const servers = document.servers || [];
+        return {
+            baseUri: servers.length ? servers[0].url : '',
+            version: (document.info || {}).version
+        };
+    }
+
+    protected async findModelsAndEndpoints(document: any) {
+        const models: ModelMap = {};
+        const endpoints: Endpoint[] = [];
+        this.document = document;
+
+        const schemas = (document.components || {}).schemas || {};
+        for (let name of Object.keys(schemas)) {
+            this.currentPath = ['components', 'schemas', name];
+            this.currentLocation = this.locate(schemas, name);
+            await this.convertSchema({ $ref: schemaRefPrefix + name }, models);
+        }
+
+        const paths = document.paths || {};
+        for (let url of Object.keys(paths)) {
+            const pathItem = this.resolveRef(paths[url]) || {};
+            const methods = Object.keys(pathItem).filter(key => requestMethods.indexOf(key) >= 0);
+
+            for (let methodName of methods) {
+                this.currentPath = ['paths', url, methodName];
+                this.currentLocation = this.locate(pathItem, methodName);
+                const endpoint = await this.traverseOperation(pathItem[methodName], methodName, url, pathItem.parameters || [], models);
+                endpoints.push(endpoint);
+            }
+        }
+
+        return { endpoints, models };
+    }
+
+    /** Converts an OpenAPI operation to an endpoint. */
+    protected async traverseOperation(operation: any, methodName: string, url: string, pathParameters: any[], models: ModelMap): Promise<Endpoint> {
+        const endpoint: Endpoint = {
+            url,
+            method: methodName.toUpperCase() as any,
+            description: operation.description || operation.summary,
+            responses: {}
+        };
+
+        // Parameters of the operation override parameters of the path with the same name and location
+        const parameters: { [key: string]: any } = {};
+        for (let parameter of pathParameters.concat(operation.parameters || [])) {
+            const resolved = this.resolveRef(parameter);
+            parameters[resolved.in + ':' + resolved.name] = resolved;
+        }
+
+        for (let key of Object.keys(parameters)) {
+            const parameter = parameters[key];
+            if (parameter.in === 'path') {
+                endpoint.urlParameters = endpoint.urlParameters || {};
+                endpoint.urlParameters[parameter.name] = this.convertParameter(parameter);
+            } else if (parameter.in === 'query') {
+                endpoint.queryParameters = endpoint.queryParameters || {};
+                endpoint.queryParameters[parameter.name] = this.convertParameter(parameter);
+            } else if (parameter.in === 'header') {
+                endpoint.headers = endpoint.headers || {};
+                endpoint.headers[parameter.name] = this.convertParameter(parameter);
+            }
+        }
+
+        if (operation.requestBody) {
+            const requestBody = this.resolveRef(operation.requestBody);
+            endpoint.requestBody = await this.convertRequestBody(requestBody, models);
+            const requestBodies = await this.convertContent(requestBody.content || {}, models, endpoint.requestBody);
+            if (requestBodies) {
+                endpoint.requestBodies = requestBodies;
+                endpoint.requestBody = endpoint.requestBody || requestBodies[Object.keys(requestBodies)[0]];
+            }
+        }
+
+        endpoint.responses = await this.traverseResponses(operation.responses || {}, models);
+
+        return endpoint;
+    }
+
+    /** Converts a parameter object to a named parameter. */
+    protected convertParameter(parameter: any): Parameter {
+        const schema = this.resolveRef(parameter.schema) || {};
+        const repeat = schema.type === 'array';
+        const valueSchema = repeat ? (this.resolveRef(schema.items) || {}) : schema;
+
+        const result: Parameter = {
+            description: parameter.description || '',
+            type: valueSchema.type === 'boolean' ? 'boolean'
+                : (valueSchema.type === 'integer' || valueSchema.type === 'number') ? 'number'
+                : 'string',
+            required: parameter.in === 'path' || !!parameter.required,
+            repeat
+        };
+
+        if (schema.default != null) {
+            result.default = String(schema.default);
+        }
+        const example = parameter.example !== undefined ? parameter.example : schema.example;
+        if (example != null) {
+            result.example = typeof example === 'string' ? example : JSON.stringify(example);
+        }
+        if (Array.isArray(valueSchema.enum)) {
+            result.enum = valueSchema.enum.map(String);
+        }
+
+        return result;
+    }
+
+    /** Converts a request body object. JSON bodies are preferred over form bodies. */
+    protected async convertRequestBody(requestBody: any, models: ModelMap): Promise<RequestBody | undefined> {
+        const content = requestBody.content || {};
+        const jsonMediaType = this.findJsonMediaType(content);
+
+        if (jsonMediaType) {
+            const mediaTypeObject = content[jsonMediaType] || {};
+            const result: RequestBody = { mimeType: 'application/json' };
+            const example = this.getExample(mediaTypeObject);
+            if (example !== undefined) {
+                result.example = example;
+            }
+            if (mediaTypeObject.schema) {
+                result.schema = await this.convertSchema(mediaTypeObject.schema, models);
+            }
+            return result;
+        } else if (content['multipart/form-data']) {
+            const schema = this.resolveRef(content['multipart/form-data'].schema) || {};
+            const formParameters = this.convertFormParameters(schema);
+            return {
+                mimeType: 'multipart/form-data',
+                schema: {
+                    type: 'object',
+                    required: Object.keys(formParameters).some(k => formParameters[k].required),
+                    properties: formParameters as any
+                } as ObjectProperty
+            };
+        }
+        return undefined;
+    }
+
+    /** Converts the properties of a multipart/form-data schema to form parameters. */
+    protected convertFormParameters(schema: any): FormPartMap {
+        const result: FormPartMap = {};
+        const properties = schema.properties || {};
+        const required: string[] = schema.required || [];
+
+        for (let name of Object.keys(properties)) {
+            const property = this.resolveRef(properties[name]) || {};
+            if (property.type === 'string' && property.format === 'binary') {
+                result[name] = {
+                    description: property.description || '',
+                    required: required.indexOf(name) >= 0,
+                    repeat: false,
+                    type: 'file'
+                };
+            } else {
+                result[name] = this.convertParameter({
+                    description: property.description,
+                    required: required.indexOf(name) >= 0,
+                    schema: property
+                });
+            }
+        }
+
+        return result;
+    }
+
+    /** Converts the responses of an operation. Only numeric status codes are supported. */
+    protected async traverseResponses(responses: any, models: ModelMap): Promise<ResponseMap> {
+        const result: ResponseMap = {};
+
+        for (let statusCode of Object.keys(responses)) {
+            if (!/^\d+$/.test(statusCode)) {
+                continue;
+            }
+
+            const response = this.resolveRef(responses[statusCode]) || {};
+            const parsed: Response = {
+                description: response.description,
+                responseBodyExample: undefined,
+                responseBodySchema: undefined
+            };
+
+            const headers = response.headers || {};
+            for (let name of Object.keys(headers)) {
+                parsed.headers = parsed.headers || {};
+                parsed.headers[name] = this.convertParameter(Object.assign({}, this.resolveRef(headers[name]), { name, in: 'header' }));
+            }
+
+            const content = response.content || {};
+            const jsonMediaType = this.findJsonMediaType(content);
+            let jsonBody: RequestBody | undefined;
+            if (jsonMediaType) {
+                const mediaTypeObject = content[jsonMediaType] || {};
+                parsed.responseBodyExample = this.getExample(mediaTypeObject);
+                if (mediaTypeObject.schema) {
+                    parsed.responseBodySchema = await this.convertSchema(mediaTypeObject.schema, models);
+                }
+                jsonBody = { mimeType: 'application/json' };
+                if (parsed.responseBodySchema) {
+                    jsonBody.schema = parsed.responseBodySchema;
+                }
+                if (parsed.responseBodyExample !== undefined) {
+                    jsonBody.example = parsed.responseBodyExample;
+                }
+            }
+
+            const bodies = await this.convertContent(content, models, jsonBody);
+            if (bodies) {
+                parsed.bodies = bodies;
+            }
+
+            result[Number(statusCode)] = parsed;
+        }
+
+        return result;
+    }
+
+    /**
+     * Converts the media types of a content map except JSON and forms, e.g. binary data or text.
+     * @param parsedBody The already converted JSON or form body.
+     */
+    protected async convertContent(content: { [mediaType: string]: any }, models: ModelMap, parsedBody: RequestBody | undefined): Promise<BodyMap | undefined> {
+        const result: BodyMap = {};
+        if (parsedBody) {
+            result[parsedBody.mimeType] = parsedBody;
+        }
+
+        const jsonMediaType = this.findJsonMediaType(content);
+        for (let mimeType of Object.keys(content)) {
+            if (mimeType !== jsonMediaType && mimeType !== 'multipart/form-data') {
+                const mediaTypeObject = content[mimeType] || {};
+                const body: RequestBody = { mimeType };
+                const example = this.getExample(mediaTypeObject);
+                if (example !== undefined) {
+                    body.example = example;
+                }
+                if (mediaTypeObject.schema) {
+                    body.schema = await this.convertSchema(mediaTypeObject.schema, models);
+                }
+                result[mimeType] = body;
+            }
+        }
+
+        return Object.keys(result).length ? result : undefined;
+    }
+
+    /** Returns the JSON media type of a content map, e.g. "application/json" or "application/json; charset=utf-8". */
+    protected findJsonMediaType(content: { [mediaType: string]: any }): string | undefined {
+        return Object.keys(content).filter(mediaType => /^application\/(.+\+)?json\b/.test(mediaType))[0];
+    }
+
+    /** Returns the example of a media type object or the first of its examples. */
+    protected getExample(mediaTypeObject: any): any {
+        if (mediaTypeObject.example !== undefined) {
+            return mediaTypeObject.example;
+        }
+        const examples = mediaTypeObject.examples || {};
+        const firstKey = Object.keys(examples)[0];
+        return firstKey !== undefined ? (this.resolveRef(examples[firstKey]) || {}).value : undefined;
+    }
+
+    /**
+     * Resolves a local JSON reference like `{ $ref: '#/components/parameters/page' }` in the current document.
+     * Unresolvable, external and circular references are reported and resolved as `{ type: 'any' }`.
+     */
+    protected resolveRef(value: any): any {
+        const seen: string[] = [];
+        while (value && typeof value.$ref === 'string') {
+            const ref: string = value.$ref;
+            if (seen.indexOf(ref) >= 0) {
+                this.report('error', 'circular-reference', `Circular reference "${ref}"`);
+                return { type: 'any' };
+            } else if (!ref.startsWith('#/')) {
+                this.report('error', 'external-reference', `Only local references are supported, found "${ref}"`);
+                return { type: 'any' };
+            }
+            seen.push(ref);
+
+            let target: any = this.document;
+            for (let segment of ref.substr(2).split('/')) {
+                const key = segment.replace(/~1/g, '/').replace(/~0/g, '~');
+                if (target == null || typeof target !== 'object' || !(key in target)) {
+                    this.report('error', 'unresolved-reference', `Can not resolve reference "${ref}"`);
+                    return { type: 'any' };
+                }
+                target = target[key];
+            }
+            value = target;
+        }
+        return value;
+    }
+
+    /**
+     * Converts an OpenAPI schema object to a property definition.
+     * Object schemas in `components/schemas` are stored in the model hash and referenced via `$ref`.
+     */
+    protected async convertSchema(schema: any, models: ModelMap): Promise<PropertyDefinition> {
+        if (schema && typeof schema.$ref === 'string' && schema.$ref.startsWith(schemaRefPrefix)) {
+            const name = schema.$ref.substr(schemaRefPrefix.length);
+            const target = this.resolveRef(schema);
+            if (models[name]) {
+                return { type: 'object', $ref: name } as ObjectProperty;
+            } else if (!this.isObjectSchema(target)) {
+                // Non-object schemas are inlined, which is impossible when they contain themselves
+                return this.convertWithoutCycles(schema.$ref, () => this.convertSchema(target, models), () => {
+                    this.report('error', 'circular-reference', `Schema "${name}" contains itself without an object schema in between`);
+                    return { type: 'any' } as PropertyDefinition;
+                });
+            }
+
+            // Store the model before converting its properties to allow self-referencing schemas
+            const model: ObjectProperty = { type: 'object', id: name, properties: {} };
+            models[name] = model;
+            const converted = await this.convertSchema(target, models);
+            if (converted.type !== 'object') {
+                // "allOf" of schemas which are not all objects results in an intersection
+                delete models[name];
+                return converted;
+            }
+            Object.assign(model, converted, { id: name });
+            return { type: 'object', $ref: name } as ObjectProperty;
+        }
+
+        schema = this.resolveRef(schema) || {};
+        let result: PropertyDefinition;
+
+        // OpenAPI 3.0 declares nullable values with "nullable: true", OpenAPI 3.1 with "type: [..., 'null']"
+        const types: string[] = Array.isArray(schema.type) ? schema.type.filter((type: string) => type !== 'null') : [];
+        const nullable = schema.nullable === true || (Array.isArray(schema.type) && types.length < schema.type.length);
+
+        if (Array.isArray(schema.type) && types.length > 1) {
+            const variants: PropertyDefinition[] = [];
+            for (let type of types) {
+                variants.push(await this.convertSchema(Object.assign({}, schema, { type, nullable: false, description: undefined }), models));
+            }
+            result = await this.createUnion(variants, models);
+        } else if (Array.isArray(schema.type)) {
+            result = await this.convertSchema(Object.assign({}, schema, { type: types[0], nullable: false }), models);
+        } else if (schema.allOf) {
+            // Object parts are merged and referenced models are extended, other parts are intersected
+            const parts: PropertyDefinition[] = [];
+            for (let part of schema.allOf) {
+                parts.push(await this.convertSchema(part, models));
+            }
+            if (schema.properties) {
+                parts.push(await this.convertSchema(Object.assign({}, schema, { allOf: undefined }), models));
+            }
+            result = await this.combineAllOf(parts, models);
+        } else if (schema.oneOf || schema.anyOf) {
+            const allVariantSchemas: any[] = schema.oneOf || schema.anyOf;
+            const variantSchemas = allVariantSchemas.filter(variant => variant.type !== 'null');
+            const variants: PropertyDefinition[] = [];
+            for (let variant of variantSchemas) {
+                variants.push(await this.convertSchema(variant, models));
+            }
+
+            // Without a mapping, the discriminator value of a referenced schema is its name
+            const discriminator = schema.discriminator || {};
+            const mapping: { [value: string]: string } = discriminator.mapping || {};
+            const discriminatorValues = variantSchemas.map(variant => {
+                const ref: string | undefined = variant.$ref;
+                const mappedValue = Object.keys(mapping).filter(value => mapping[value] === ref)[0];
+                return mappedValue !== undefined ? mappedValue
+                    : ref && ref.startsWith(schemaRefPrefix) ? ref.substr(schemaRefPrefix.length)
+                    : undefined;
+            });
+            result = await this.createUnion(variants, models, discriminator.propertyName,
+                discriminator.propertyName ? discriminatorValues : undefined);
+            if (variantSchemas.length < allVariantSchemas.length) {
+                result.nullable = true;
+            }
+        } else if (this.isObjectSchema(schema)) {
+            const required: string[] = Array.isArray(schema.required) ? schema.required : [];
+            const object: ObjectProperty = { type: 'object', properties: {} } as ObjectProperty;
+            const properties = schema.properties || {};
+            for (let key of Object.keys(properties)) {
+                const property = Object.assign({}, await this.convertSchema(properties[key], models));
+                property.required = required.indexOf(key) >= 0;
+                object.properties[key] = property;
+            }
+            if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+                object.additionalProperties = await this.convertSchema(schema.additionalProperties, models);
+            } else if (schema.additionalProperties === true || (!schema.properties && schema.additionalProperties !== false)) {
+                object.additionalProperties = { type: 'any' };
+            }
+            result = object;
+        } else if (schema.type === 'array') {
+            result = {
+                type: 'array',
+                items: schema.items ? await this.convertSchema(schema.items, models) : { type: 'any' }
+            };
+        } else if (['boolean', 'integer', 'number', 'string'].indexOf(schema.type) >= 0) {
+            result = { type: schema.type };
+        } else {
+            result = { type: 'any' };
+        }
+
+        for (let keyword of copiedKeywords) {
+            const appliesToResult = result.type !== 'union' || keyword === 'description' || keyword === 'example';
+            if (schema[keyword] !== undefined && appliesToResult) {
+                (result as any)[keyword] = schema[keyword];
+            }
+        }
+        if (nullable) {
+            result.nullable = true;
+        }
+
+        return result;
+    }
+
+    /** Checks if a schema describes an object. */
+    protected isObjectSchema(schema: any): boolean {
+        return !!schema && (schema.type === 'object'
+            || (!schema.type && !!(schema.properties || schema.additionalProperties || schema.allOf)));
+    }
+}
@@ -1,16 +1,22 @@
-import { MeshRamlParser } from './parser';
+import { createParser, detectInputFormat } from './input-format';
+import { GeneratorPlugin, PluginPipeline } from './plugins';
 import { TypescriptModelRenderer } from './renderers/typescript-renderer';
 
 /**
  * Parse the Gentics Mesh RAML for Request/Response models and generate TypeScript interfaces.
+ * RAML 0.8, RAML 1.0 and OpenAPI 3 input is supported, the format is detected from the document.
+ *
+ * The parse result and the output can be customized with plugins, see {@link GeneratorPlugin}.
  *
  * For more fine-tuned generation, use {@link MeshRamlParser} and a {@link ModelRenderer} of your choice.
  */
-export async function parseAndGenerate(raml: string): Promise<string> {
-    const parser = new MeshRamlParser();
+export async function parseAndGenerate(raml: string, plugins: GeneratorPlugin[] = []): Promise<string> {
+    const parser = createParser(detectInputFormat(raml));
     const renderer = new TypescriptModelRenderer();
+    const pipeline = new PluginPipeline(plugins);
 
-    const parsed = await parser.parseRAML(raml);
+    const parsed = await pipeline.transformParsed(await parser.parseRAML(raml));
     const rendered = await renderer.renderAll(parsed);
-    return rendered;
+    const files = await pipeline.transformFiles({ 'models.ts': rendered });
+    return Object.keys(files).map(fileName => files[fileName]).join('\n');
 }
@@ -1,7 +1,10 @@
 import { expect } from 'chai';
+import { posix } from 'path';
+import { FileResolver } from './file-resolver';
 import { MeshRamlParser } from './parser';
-import { ModelMap, ResponseMapYaml, PropertyDefinition, Endpoint, ParsedMeshRAML, RequestSchemaInRAML,
+import { Diagnostic, ModelMap, ResponseMapYaml, PropertyDefinition, Endpoint, ParsedMeshRAML, RequestSchemaInRAML,
     ObjectProperty, PrimitiveProperty, ArrayProperty, UrlParameterMap } from './interfaces';
+import { unindent } from './utils/unindent';
 
 
 describe('MeshRamlParser', () => {
@@ -47,6 +50,99 @@ describe('MeshRamlParser', () => {
 
     });
 
+    describe('parseRAMLFile', () => {
+
+        let files: { [path: string]: string };
+        let fileResolver: FileResolver;
+        beforeEach(() => {
+            files = {};
+            fileResolver = {
+                resolvePath: (path, referencedFrom) => referencedFrom
+                    ? posix.join(posix.dirname(referencedFrom), path)
+                    : posix.normalize(path),
+                readFile: async path => {
+                    if (!(path in files)) {
+                        throw new Error('File not found: ' + path);
+                    }
+                    return files[path];
+                }
+            };
+            parser = new MeshRamlParser({ fileResolver }) as MeshRamlParserExposeProtectedProperties;
+        });
+
+        it('loads the root file via the file resolver', async () => {
+            files['api/mesh.raml'] = 'baseUri: /api/v1\nversion: 0.9.1';
+            const result = await parser.parseRAMLFile('api/mesh.raml');
+            expect(result.baseUri).to.equal('/api/v1');
+            expect(result.version).to.equal('0.9.1');
+        });
+
+        it('includes JSON schema and example files as strings relative to the including file', async () => {
+            files['api/mesh.raml'] = [
+                '/users:',
+                '  /:',
+                '    get:',
+                '      responses:',
+                '        200:',
+                '          body:',
+                '            application/json:',
+                '              schema: !include schemas/user.json',
+                '              example: !include examples/user.json'
+            ].join('\n');
+            files['api/schemas/user.json'] = JSON.stringify({
+                type: 'object',
+                id: 'urn:jsonschema:com:gentics:mesh:core:rest:user:UserResponse',
+                properties: {
+                    uuid: { type: 'string', required: true }
+                }
+            });
+            files['api/examples/user.json'] = '{ "uuid": "some-uuid" }';
+
+            const result = await parser.parseRAMLFile('api/mesh.raml');
+            expect(result.models).to.have.key('urn:jsonschema:com:gentics:mesh:core:rest:user:UserResponse');
+            expect(result.endpoints[0].responses[200].responseBodyExample).to.deep.equal({ uuid: 'some-uuid' });
+        });
+
+        it('parses included YAML files and resolves their includes relative to them', async () => {
+            files['api/mesh.raml'] = [
+                '/users: !include resources/users.raml'
+            ].join('\n');
+            files['api/resources/users.raml'] = [
+                '/:',
+                '  get:',
+                '    description: !include ../docs/users.md'
+            ].join('\n');
+            files['api/docs/users.md'] = 'Load all users.';
+
+            const result = await parser.parseRAMLFile('api/mesh.raml');
+            expect(result.endpoints).to.have.lengthOf(1);
+            expect(result.endpoints[0].url).to.equal('/users');
+            expect(result.endpoints[0].description).to.equal('Load all users.');
+        });
+
+        it('throws for circular includes', async () => {
+            files['mesh.raml'] = '/users: !include users.raml';
+            files['users.raml'] = '/groups: !include groups.yaml';
+            files['groups.yaml'] = '/users: !include users.raml';
+
+            let error: Error | undefined;
+            try {
+                await parser.parseRAMLFile('mesh.raml');
+            } catch (err) {
+                error = err;
+            }
+            expect(error).to.be.instanceOf(Error);
+            expect(error!.message).to.contain('mesh.raml -> users.raml -> groups.yaml -> users.raml');
+        });
+
+        it('resolves !include tags in RAML strings relative to the passed filename', async () => {
+            files['api/description.md'] = 'API description';
+            const result = await parser.parseYamlToObject('description: !include description.md', 'api/mesh.raml');
+            expect(result).to.deep.equal({ description: 'API description' });
+        });
+
+    });
+
     describe('findModelsAndEndpoints', () => {
 
         it('searches endpoints and calls traverseRequest for them', async () => {
@@ -274,6 +370,69 @@ describe('MeshRamlParser', () => {
             });
         });
 
+        it('finds endpoints declared on resources at any depth', async () => {
+            const exampleRaml = {
+                '/': {
+                    get: { description: 'API info' }
+                },
+                '/{project}': {
+                    uriParameters: {
+                        project: { description: 'Name of the project', type: 'string', required: true, repeat: false }
+                    },
+                    get: { description: 'Load the project' },
+                    '/nodes': {
+                        '/{nodeUuid}': {
+                            uriParameters: {
+                                nodeUuid: { description: 'Uuid of the node', type: 'string', required: true, repeat: false }
+                            },
+                            '/languages': {
+                                '/{language}': {
+                                    uriParameters: {
+                                        language: { description: 'Language tag', type: 'string', required: true, repeat: false }
+                                    },
+                                    delete: { description: 'Delete a language of the node' }
+                                }
+                            }
+                        },
+                        post: { description: 'Create a node' }
+                    }
+                }
+            };
+
+            const result = await parser.findModelsAndEndpoints(exampleRaml);
+            expect(result.endpoints.map(e => e.method + ' ' + e.url)).to.deep.equal([
+                'GET /',
+                'GET /{project}',
+                'POST /{project}/nodes',
+                'DELETE /{project}/nodes/{nodeUuid}/languages/{language}'
+            ]);
+        });
+
+        it('passes the uriParameters of all parent resources to nested resources', async () => {
+            const exampleRaml = {
+                '/{project}': {
+                    uriParameters: {
+                        project: { description: 'Name of the project', type: 'string', required: true, repeat: false }
+                    },
+                    '/nodes/{nodeUuid}': {
+                        uriParameters: {
+                            nodeUuid: { description: 'Uuid of the node', type: 'string', required: true, repeat: false }
+                        },
+                        '/languages/{language}': {
+                            uriParameters: {
+                                language: { description: 'Language tag', type: 'string', required: true, repeat: false }
+                            },
+                            delete: { description: 'Delete a language of the node' }
+                        }
+                    }
+                }
+            };
+
+            const result = await parser.findModelsAndEndpoints(exampleRaml);
+            expect(result.endpoints).to.have.lengthOf(1);
+            expect(result.endpoints[0].urlParameters).to.have.all.keys('project', 'nodeUuid', 'language');
+        });
+
         it('parses the request body MIME type', async () => {
             const exampleRaml = {
                 '/search': {
@@ -440,6 +599,20 @@ describe('MeshRamlParser', () => {
             });
         });
 
+        it('adds the request headers', async () => {
+            const headers = {
+                'If-None-Match': {
+                    description: 'ETag of the cached response',
+                    repeat: false,
+                    required: false,
+                    type: 'string'
+                }
+            };
+            (exampleRequestRaml as any).headers = headers;
+            const result = await parser.traverseRequest(exampleRequestRaml, 'get', '/users', undefined, {});
+            expect(result.headers).to.deep.equal(headers);
+        });
+
         it('adds the request schema from the RAML', async () => {
             const result = await parser.traverseRequest(exampleRequestRaml, 'post', '/users', undefined, {});
             expect(result.requestBody!.schema).to.deep.equal({
@@ -510,6 +683,30 @@ describe('MeshRamlParser', () => {
             });
         });
 
+        it('collects bodies of all media types', async () => {
+            exampleRequestRaml.body = {
+                'application/octet-stream': {},
+                'text/plain': { example: 'content' }
+            } as any;
+            exampleRequestRaml.responses = {
+                200: {
+                    description: 'The binary data',
+                    body: {
+                        'image/*': {}
+                    }
+                }
+            } as any;
+            const result = await parser.traverseRequest(exampleRequestRaml, 'post', '/binary', undefined, {});
+            expect(result.requestBodies).to.deep.equal({
+                'application/octet-stream': { mimeType: 'application/octet-stream' },
+                'text/plain': { mimeType: 'text/plain', example: 'content' }
+            });
+            expect(result.requestBody).to.deep.equal({ mimeType: 'application/octet-stream' });
+            expect(result.responses[200].bodies).to.deep.equal({
+                'image/*': { mimeType: 'image/*' }
+            });
+        });
+
     });
 
     describe('traverseResponseSchemas', () => {
@@ -646,6 +843,26 @@ describe('MeshRamlParser', () => {
             expect(models).to.have.property('urn:jsonschema:com:gentics:mesh:core:rest:user:UserResponse');
         });
 
+        it('adds the response headers', async () => {
+            const headers = {
+                Location: {
+                    description: 'URL of the created element',
+                    repeat: false,
+                    required: true,
+                    type: 'string'
+                }
+            };
+            exampleResponseMap = {
+                201: {
+                    description: 'Created',
+                    headers
+                }
+            } as any;
+
+            const result = await parser.traverseResponseSchemas(exampleResponseMap, {});
+            expect(result[201].headers).to.deep.equal(headers);
+        });
+
         it('works for body-less 204 responses', async () => {
             exampleResponseMap = {
                 204: {
@@ -761,19 +978,748 @@ describe('MeshRamlParser', () => {
             expect(modelMap).to.have.property('urn:jsonschema:com:gentics:mesh:core:rest:group:GroupReference');
         });
 
+        it('keeps the allowed values of enum properties', async () => {
+            const modelMap = {};
+            const jobModel: ObjectProperty = {
+                type: 'object',
+                id: 'urn:jsonschema:com:gentics:mesh:core:rest:job:JobResponse',
+                properties: {
+                    status: {
+                        type: 'string',
+                        required: true,
+                        enum: ['QUEUED', 'COMPLETED']
+                    }
+                }
+            };
+            const result = await parser.normalizeSchema(jobModel, modelMap) as ObjectProperty;
+            expect(result.properties.status).to.deep.equal({
+                type: 'string',
+                required: true,
+                enum: ['QUEUED', 'COMPLETED']
+            });
+        });
+
+        it('keeps format, pattern and length constraints', async () => {
+            const schema: ArrayProperty = {
+                type: 'array',
+                minItems: 1,
+                items: {
+                    type: 'string',
+                    format: 'uuid',
+                    pattern: '^[0-9a-f]{32}$',
+                    maxLength: 32
+                }
+            };
+            const result = await parser.normalizeSchema(schema, {});
+            expect(result).to.deep.equal({
+                type: 'array',
+                minItems: 1,
+                items: {
+                    type: 'string',
+                    format: 'uuid',
+                    pattern: '^[0-9a-f]{32}$',
+                    maxLength: 32
+                }
+            });
+        });
+
+        it('converts numeric constraints which are passed as string to numbers', async () => {
+            const schema = {
+                type: 'string',
+                minLength: '3',
+                maxLength: 'many'
+            } as any as PrimitiveProperty;
+            const result = await parser.normalizeSchema(schema, {});
+            expect(result).to.deep.equal({
+                type: 'string',
+                minLength: 3
+            });
+        });
+
         it('does not store non-object schemas in the passed model map', async () => {
             const modelMap = {};
             const result = await parser.normalizeSchema(numberModel, modelMap);
             expect(modelMap).to.deep.equal({});
         });
 
+        it('converts oneOf and anyOf schemas to unions and detects their discriminator', async () => {
+            const schema = {
+                oneOf: [
+                    { type: 'object', id: 'StringField', properties: { type: { type: 'string', enum: ['string'] }, value: { type: 'string' } } },
+                    { type: 'object', id: 'NumberField', properties: { type: { type: 'string', enum: ['number'] }, value: { type: 'number' } } },
+                    { type: 'null' }
+                ]
+            } as any as PropertyDefinition;
+            const modelMap: ModelMap = {};
+            const result = await parser.normalizeSchema(schema, modelMap);
+            expect(result).to.deep.equal({
+                type: 'union',
+                variants: [modelMap['StringField'], modelMap['NumberField']],
+                discriminator: 'type',
+                nullable: true
+            });
+        });
+
+        it('converts type arrays with "null" to nullable properties', async () => {
+            const modelMap: ModelMap = {};
+            const result = await parser.normalizeSchema({
+                type: 'object',
+                id: 'NodeResponse',
+                properties: {
+                    editor: { type: ['string', 'null'] },
+                    parentNode: { type: 'object', $ref: 'NodeResponse', nullable: true }
+                }
+            } as any as PropertyDefinition, modelMap);
+            expect((result as ObjectProperty).properties).to.deep.equal({
+                editor: { type: 'string', nullable: true },
+                parentNode: { type: 'object', $ref: 'NodeResponse', nullable: true }
+            });
+            expect(modelMap['NodeResponse'].nullable).to.equal(undefined);
+        });
+
+        it('stores models used as nullable inline object without the nullable flag', async () => {
+            const nodeReference = () => ({
+                type: 'object',
+                id: 'NodeReference',
+                properties: { uuid: { type: 'string', required: true } }
+            });
+            const modelMap: ModelMap = {};
+            const result = await parser.normalizeSchema({
+                type: 'object',
+                id: 'Other',
+                properties: {
+                    parent: Object.assign(nodeReference(), { type: ['object', 'null'] }),
+                    node: nodeReference(),
+                    previous: Object.assign(nodeReference(), { nullable: true })
+                }
+            } as any as PropertyDefinition, modelMap);
+            expect((result as ObjectProperty).properties).to.deep.equal({
+                parent: { type: 'object', $ref: 'NodeReference', nullable: true },
+                node: modelMap['NodeReference'],
+                previous: { type: 'object', $ref: 'NodeReference', nullable: true }
+            });
+            expect(modelMap['NodeReference'].nullable).to.equal(undefined);
+        });
+
+        it('converts allOf schemas of objects to an object which extends the referenced models', async () => {
+            const modelMap: ModelMap = {};
+            await parser.normalizeSchema({
+                type: 'object',
+                id: 'NodeReference',
+                properties: { uuid: { type: 'string' } }
+            }, modelMap);
+            const result = await parser.normalizeSchema({
+                id: 'NodeResponse',
+                allOf: [{ $ref: 'NodeReference' }],
+                properties: { language: { type: 'string' } }
+            } as any as PropertyDefinition, modelMap);
+            expect(result).to.deep.equal({
+                type: 'object',
+                id: 'NodeResponse',
+                extends: ['NodeReference'],
+                properties: {
+                    uuid: { type: 'string' },
+                    language: { type: 'string' }
+                }
+            });
+            expect(modelMap['NodeResponse']).to.equal(result);
+        });
+
+        it('converts allOf schemas which are not all objects to intersections', async () => {
+            const result = await parser.normalizeSchema({
+                allOf: [
+                    { type: 'object', properties: { name: { type: 'string' } } },
+                    { oneOf: [{ type: 'string' }, { type: 'number' }] }
+                ]
+            } as any as PropertyDefinition, {});
+            expect(result).to.deep.equal({
+                type: 'intersection',
+                members: [
+                    { type: 'object', properties: { name: { type: 'string' } } },
+                    { type: 'union', variants: [{ type: 'string' }, { type: 'number' }] }
+                ]
+            });
+        });
+
+    });
+
+    describe('traits and resource types', () => {
+
+        const ramlWithTemplates = unindent `
+            #%RAML 0.8
+            traits:
+              - paged:
+                  queryParameters:
+                    page:
+                      type: number
+                      description: Number of the page
+                    perPage:
+                      type: number
+                      description: Number of <<resourcePathName>> per page, at most <<maxPerPage>>
+              - versioned:
+                  headers:
+                    X-Version:
+                      type: string
+                      description: Version of the <<resourcePathName | !singularize>> to <<methodName>>
+            resourceTypes:
+              - collection:
+                  is: [ versioned ]
+                  get:
+                    description: Load all <<resourcePathName>>
+                    is: [ paged: { maxPerPage: 50 } ]
+                  post?:
+                    description: Create a new <<resourcePathName | !singularize | !uppercamelcase>>
+            /users:
+              type: collection
+              get:
+                responses:
+                  200:
+                    description: The users
+            /groups:
+              type: collection
+              post:
+                description: Create a group
+        `;
+
+        it('applies the methods of resource types to resources', async () => {
+            const result = await parser.parseRAML(ramlWithTemplates);
+            expect(result.endpoints.map(e => e.method + ' ' + e.url + ': ' + e.description)).to.deep.equal([
+                'GET /users: Load all users',
+                'POST /groups: Create a group',
+                'GET /groups: Load all groups'
+            ]);
+            expect(result.endpoints[0].responses[200].description).to.equal('The users');
+        });
+
+        it('applies traits of methods, resources and resource types with parameters', async () => {
+            const result = await parser.parseRAML(ramlWithTemplates);
+            const getUsers = result.endpoints[0];
+            expect(getUsers.queryParameters).to.have.all.keys('page', 'perPage');
+            expect(getUsers.queryParameters!.perPage.description).to.equal('Number of users per page, at most 50');
+            expect(getUsers.headers!['X-Version'].description).to.equal('Version of the user to get');
+
+            const createGroup = result.endpoints[1];
+            expect(createGroup.queryParameters).to.equal(undefined);
+            expect(createGroup.headers!['X-Version'].description).to.equal('Version of the group to post');
+            expect(result.diagnostics).to.deep.equal([]);
+        });
+
+        it('reports unknown traits, resource types and parameters', async () => {
+            const result = await parser.parseRAML(unindent `
+                #%RAML 0.8
+                traits:
+                  - searchable:
+                      description: Search for <<query>>
+                /users:
+                  type: collection
+                  get:
+                    is: [ paged, searchable ]
+            `);
+            expect(result.diagnostics!.map(d => d.code + ': ' + d.message + ' (' + d.location!.line + ')')).to.deep.equal([
+                'unknown-resource-type: Resource type "collection" is not declared (6)',
+                'unknown-trait: Trait "paged" is not declared (8)',
+                'invalid-template-parameter: Missing value for parameter "query" (8)'
+            ]);
+        });
+
+    });
+
+    describe('diagnostics', () => {
+
+        const ramlWithProblems = {
+            '/{project}/nodes': {
+                post: {
+                    body: {
+                        'application/json': {
+                            example: '{ "name": ',
+                            schema: '{ "type": "object", "id": "NodeCreateRequest", "properties": { } }'
+                        }
+                    },
+                    responses: {
+                        200: {
+                            body: {
+                                'application/json': {
+                                    schema: '{ "type": "object", '
+                                }
+                            }
+                        }
+                    }
+                }
+            }
+        };
+
+        it('reports missing URL parameters and adds a string parameter', async () => {
+            const result = await parser.parseRAML(ramlWithProblems);
+            expect(result.diagnostics!.filter(d => d.code === 'missing-uri-parameter')).to.deep.equal([{
+                severity: 'error',
+                code: 'missing-uri-parameter',
+                message: 'No definition of URL parameter "project" can be found for url "/{project}/nodes"',
+                path: ['/{project}/nodes']
+            }]);
+            expect(result.endpoints[0].urlParameters).to.deep.equal({
+                project: { description: '', type: 'string', required: true, repeat: false }
+            });
+        });
+
+        it('reports invalid JSON in examples as warning and in schemas as error', async () => {
+            const result = await parser.parseRAML(ramlWithProblems);
+            const invalidJson = result.diagnostics!.filter(d => d.code === 'invalid-json');
+            expect(invalidJson.map(d => [d.severity, d.path.join(' > ')])).to.deep.equal([
+                ['warning', '/{project}/nodes > post > body > application/json > example'],
+                ['error', '/{project}/nodes > post > responses > 200 > body > application/json > schema']
+            ]);
+            expect(result.endpoints[0].requestBody!.schema).to.deep.equal({
+                type: 'object',
+                id: 'NodeCreateRequest',
+                properties: {}
+            });
+            expect(result.endpoints[0].responses[200].responseBodySchema).to.equal(undefined);
+        });
+
+        it('reports unsupported schema types and types them as "any"', async () => {
+            const result = await parser.normalizeSchema({ type: 'date' } as any, {});
+            expect(result).to.deep.equal({ type: 'any' });
+            expect(parser.diagnostics.map(d => d.code)).to.deep.equal(['unsupported-schema-type']);
+        });
+
+        it('returns an empty list for valid documents', async () => {
+            const result = await parser.parseRAML({});
+            expect(result.diagnostics).to.deep.equal([]);
+        });
+
+        describe('source locations', () => {
+
+            const files: { [path: string]: string } = {};
+            beforeEach(() => {
+                parser = new MeshRamlParser({
+                    fileResolver: {
+                        resolvePath: path => path,
+                        readFile: async path => files[path]
+                    }
+                }) as MeshRamlParserExposeProtectedProperties;
+            });
+
+            const ramlWithInvalidJson = [
+                '/users:',
+                '  get:',
+                '    responses:',
+                '      200:',
+                '        body:',
+                '          application/json:',
+                '            schema: |',
+                '              {',
+                '                "type": "object",',
+                '                "id": "User"',
+                '                "properties": {}',
+                '              }',
+                '  /{userUuid}:',
+                '    post:',
+                '      body:',
+                '        application/json:',
+                '          example: \'{ "name": }\''
+            ].join('\n');
+
+            it('reports the position of syntax errors in embedded JSON', async () => {
+                const result = await parser.parseRAML(ramlWithInvalidJson, 'api.raml');
+                const invalidJson = result.diagnostics!.filter(d => d.code === 'invalid-json');
+                expect(invalidJson.map(d => d.location)).to.deep.equal([
+                    { file: 'api.raml', line: 11, column: 17 },
+                    { file: 'api.raml', line: 17, column: 31 }
+                ]);
+            });
+
+            it('reports the position of the method for missing URL parameters', async () => {
+                const result = await parser.parseRAML(ramlWithInvalidJson, 'api.raml');
+                const missingParameter = result.diagnostics!.filter(d => d.code === 'missing-uri-parameter')[0];
+                expect(missingParameter.location).to.deep.equal({ file: 'api.raml', line: 14, column: 5 });
+            });
+
+            it('reports the position of the embedded schema for unsupported schema types', async () => {
+                const result = await parser.parseRAML([
+                    '/users:',
+                    '  get:',
+                    '    responses:',
+                    '      200:',
+                    '        body:',
+                    '          application/json:',
+                    '            schema: \'{ "type": "date" }\''
+                ].join('\n'), 'api.raml');
+                expect(result.diagnostics).to.deep.equal([{
+                    severity: 'error',
+                    code: 'unsupported-schema-type',
+                    message: 'Unsupported schema type "date"',
+                    path: ['/users', 'get'],
+                    location: { file: 'api.raml', line: 7, column: 21 }
+                }]);
+            });
+
+            it('reports positions in included JSON files', async () => {
+                files['schemas/user.json'] = '{\n  "type": "object",\n  "id": "User",\n}';
+                const result = await parser.parseRAML([
+                    '/users:',
+                    '  get:',
+                    '    responses:',
+                    '      200:',
+                    '        body:',
+                    '          application/json:',
+                    '            schema: !include schemas/user.json'
+                ].join('\n'), 'api.raml');
+                expect(result.diagnostics![0].location).to.deep.equal({ file: 'schemas/user.json', line: 4, column: 1 });
+            });
+
+            it('adds the file, line and column to errors in strict mode', async () => {
+                parser.options.strict = true;
+                let error: Error | undefined;
+                try {
+                    await parser.parseRAML(ramlWithInvalidJson, 'api.raml');
+                } catch (err) {
+                    error = err;
+                }
+                expect(error!.message).to.match(/ \(at \/users > get > responses > 200 > body > application\/json > schema, api\.raml:11:17\)$/);
+            });
+
+        });
+
+        it('throws on the first error in strict mode', async () => {
+            parser = new MeshRamlParser({ strict: true }) as MeshRamlParserExposeProtectedProperties;
+            let error: Error | undefined;
+            try {
+                await parser.parseRAML(ramlWithProblems);
+            } catch (err) {
+                error = err;
+            }
+            expect(error).to.be.instanceOf(Error);
+            expect(error!.message).to.match(/^MeshRamlParser: Invalid JSON: .+ \(at \/\{project\}\/nodes > post > responses > 200 > body > application\/json > schema\)$/);
+        });
+
+    });
+
+    describe('circular schemas', () => {
+
+        it('keeps inline objects which contain themselves and names them as recursive model', async () => {
+            const navigationElement: any = {
+                type: 'object',
+                properties: {
+                    uuid: { type: 'string' },
+                    children: { type: 'array' }
+                }
+            };
+            navigationElement.properties.children.items = navigationElement;
+            const normalized = await parser.normalizeSchema(navigationElement, {});
+            expect(normalized).to.equal(navigationElement);
+
+            parser.findModelsAndEndpoints = async () => ({
+                models: {},
+                endpoints: [{
+                    method: 'GET',
+                    url: '/navigation',
+                    description: '',
+                    responses: { 200: { description: '', responseBodySchema: normalized } }
+                }] as Endpoint[]
+            });
+            const result = await parser.parseRAML({});
+            const model = result.models['GetNavigationResponse'] as ObjectProperty;
+            expect(model).to.equal(navigationElement);
+            expect(model.recursive).to.equal(true);
+            expect(result.diagnostics).to.deep.equal([]);
+        });
+
+        it('reports non-object schemas which contain themselves', async () => {
+            const nestedList: any = { type: 'array' };
+            nestedList.items = nestedList;
+            const result = await parser.normalizeSchema(nestedList, {});
+            expect((result as ArrayProperty).items).to.deep.equal({ type: 'any' });
+            expect(parser.diagnostics.map(d => d.code + ': ' + d.message)).to.deep.equal([
+                'circular-reference: Schema of type "array" contains itself'
+            ]);
+        });
+
+        it('marks models which reference themselves directly or via other models as recursive', () => {
+            const models: ModelMap = {
+                NodeResponse: {
+                    type: 'object',
+                    id: 'NodeResponse',
+                    properties: {
+                        breadcrumb: { type: 'array', items: { type: 'object', $ref: 'NodeReference' } as ObjectProperty },
+                        creator: { type: 'object', $ref: 'UserReference' } as ObjectProperty
+                    }
+                },
+                NodeReference: {
+                    type: 'object',
+                    id: 'NodeReference',
+                    properties: {
+                        node: { type: 'union', variants: [{ type: 'object', $ref: 'NodeResponse' } as ObjectProperty, { type: 'string' }] }
+                    }
+                },
+                UserReference: {
+                    type: 'object',
+                    id: 'UserReference',
+                    properties: { uuid: { type: 'string' } }
+                }
+            };
+            parser.markRecursiveModels(models);
+            expect(models['NodeResponse']).to.have.property('recursive', true);
+            expect(models['NodeReference']).to.have.property('recursive', true);
+            expect(models['UserReference']).not.to.have.property('recursive');
+        });
+
+    });
+
+    describe('conflicting models', () => {
+
+        const createDefinitions = () => [
+            {
+                type: 'object',
+                id: 'TagReference',
+                properties: {
+                    name: { type: 'string', required: true },
+                    uuid: { type: 'string', required: true }
+                }
+            },
+            {
+                type: 'object',
+                id: 'TagReference',
+                properties: {
+                    name: { type: 'number', required: true },
+                    tagFamily: { type: 'string', required: true }
+                }
+            }
+        ] as ObjectProperty[];
+
+        it('keeps equal definitions without reporting them', async () => {
+            const modelMap: ModelMap = {};
+            const [first] = createDefinitions();
+            const [second] = createDefinitions();
+            await parser.normalizeSchema(first, modelMap);
+            const result = await parser.normalizeSchema(second, modelMap);
+            expect(result).to.equal(first);
+            expect(parser.diagnostics).to.deep.equal([]);
+        });
+
+        it('reports conflicting definitions and keeps the first one by default', async () => {
+            const modelMap: ModelMap = {};
+            const [first, second] = createDefinitions();
+            await parser.normalizeSchema(first, modelMap);
+            const result = await parser.normalizeSchema(second, modelMap) as ObjectProperty;
+            expect(result).to.equal(first);
+            expect(Object.keys(result.properties)).to.deep.equal(['name', 'uuid']);
+            expect(parser.diagnostics.map(d => d.severity + ' ' + d.code + ': ' + d.message)).to.deep.equal([
+                'warning conflicting-model: Conflicting definitions of model "TagReference": ' +
+                    '"name" is string and number, "uuid" is missing in the second definition, ' +
+                    '"tagFamily" is missing in the first definition'
+            ]);
+        });
+
+        it('merges the properties of conflicting definitions with modelConflicts: "merge"', async () => {
+            parser = new MeshRamlParser({ modelConflicts: 'merge' }) as MeshRamlParserExposeProtectedProperties;
+            const modelMap: ModelMap = {};
+            const [first, second] = createDefinitions();
+            await parser.normalizeSchema(first, modelMap);
+            const result = await parser.normalizeSchema(second, modelMap) as ObjectProperty;
+            expect(result).to.equal(modelMap['TagReference']);
+            expect(result.properties).to.deep.equal({
+                name: { type: 'union', variants: [{ type: 'string', required: true }, { type: 'number', required: true }], required: true },
+                uuid: { type: 'string', required: false },
+                tagFamily: { type: 'string', required: false }
+            });
+            expect(parser.diagnostics.map(d => d.code)).to.deep.equal(['conflicting-model']);
+        });
+
+        it('throws on conflicting definitions with modelConflicts: "fail"', async () => {
+            parser = new MeshRamlParser({ modelConflicts: 'fail' }) as MeshRamlParserExposeProtectedProperties;
+            const modelMap: ModelMap = {};
+            const [first, second] = createDefinitions();
+            await parser.normalizeSchema(first, modelMap);
+            let error: Error | undefined;
+            try {
+                await parser.normalizeSchema(second, modelMap);
+            } catch (err) {
+                error = err;
+            }
+            expect(error).to.be.instanceOf(Error);
+            expect(error!.message).to.match(/^MeshRamlParser: Conflicting definitions of model "TagReference": "name" is string and number/);
+        });
+
+    });
+
+    describe('extractBaseModels', () => {
+
+        const createElementResponse = (id: string, ownProperties: { [key: string]: PropertyDefinition }): ObjectProperty => ({
+            type: 'object',
+            id,
+            properties: Object.assign({
+                uuid: { type: 'string', required: true },
+                creator: { type: 'object', $ref: 'UserReference', required: true } as ObjectProperty,
+                created: { type: 'string', required: true },
+                permissions: { type: 'object', $ref: 'PermissionInfo', required: true } as ObjectProperty
+            }, ownProperties)
+        });
+
+        it('moves properties which multiple models have in common to a base model', () => {
+            const models: ModelMap = {
+                UserResponse: createElementResponse('UserResponse', { username: { type: 'string', required: true } }),
+                GroupResponse: createElementResponse('GroupResponse', { name: { type: 'string', required: true } }),
+                RoleResponse: createElementResponse('RoleResponse', { name: { type: 'string', required: true } }),
+                UserReference: {
+                    type: 'object',
+                    id: 'UserReference',
+                    properties: {
+                        uuid: { type: 'string', required: true },
+                        firstName: { type: 'string', required: false }
+                    }
+                }
+            };
+            parser.extractBaseModels(models);
+
+            const baseModel = models['BaseResponse'] as ObjectProperty;
+            expect(Object.keys(baseModel.properties)).to.deep.equal(['uuid', 'creator', 'created', 'permissions']);
+            for (let id of ['UserResponse', 'GroupResponse', 'RoleResponse']) {
+                const model = models[id] as ObjectProperty;
+                expect(model.extends).to.deep.equal(['BaseResponse']);
+                expect(model.properties['creator']).to.equal(baseModel.properties['creator']);
+            }
+            expect(models['UserResponse']).to.have.property('properties').with.property('username');
+            expect(models['UserReference']).not.to.have.property('extends');
+        });
+
+        it('does not merge properties with a different type or required flag', () => {
+            const models: ModelMap = {
+                UserResponse: createElementResponse('UserResponse', {}),
+                NodeResponse: createElementResponse('NodeResponse', {
+                    created: { type: 'string', required: false },
+                    creator: { type: 'string', required: true }
+                })
+            };
+            parser.extractBaseModels(models);
+            expect(Object.keys(models)).to.deep.equal(['UserResponse', 'NodeResponse']);
+        });
+
+        it('runs after parsing with the extractBaseModels option', async () => {
+            parser = new MeshRamlParser({ extractBaseModels: true }) as MeshRamlParserExposeProtectedProperties;
+            parser.findModelsAndEndpoints = async () => ({
+                models: {
+                    UserResponse: createElementResponse('UserResponse', {}),
+                    GroupResponse: createElementResponse('GroupResponse', {})
+                },
+                endpoints: []
+            });
+            const result = await parser.parseRAML({});
+            expect(Object.keys(result.models)).to.deep.equal(['UserResponse', 'GroupResponse', 'BaseResponse']);
+        });
+
+    });
+
+    describe('nameInlineModels', () => {
+
+        const inlineModel = (): ObjectProperty => ({
+            type: 'object',
+            id: 'NodeResponse',
+            properties: {
+                parentNode: {
+                    type: 'object',
+                    required: true,
+                    properties: {
+                        uuid: { type: 'string', required: true }
+                    }
+                },
+                breadcrumb: {
+                    type: 'array',
+                    required: true,
+                    items: {
+                        type: 'object',
+                        properties: {
+                            display_name: { type: 'string', required: false }
+                        }
+                    }
+                },
+                fields: {
+                    type: 'object',
+                    required: true,
+                    properties: {},
+                    additionalProperties: { type: 'any' }
+                }
+            }
+        } as any);
+
+        it('assigns ids derived from the parent model and property path to inline objects', () => {
+            const model = inlineModel();
+            const models: ModelMap = { NodeResponse: model };
+            parser.nameInlineModels(models, []);
+
+            expect(models).to.have.all.keys('NodeResponse', 'NodeResponseParentNode', 'NodeResponseBreadcrumbItem');
+            expect(models['NodeResponseParentNode']).to.equal(model.properties.parentNode);
+            expect(models['NodeResponseParentNode']).to.deep.equal({
+                type: 'object',
+                id: 'NodeResponseParentNode',
+                inline: true,
+                required: true,
+                properties: {
+                    uuid: { type: 'string', required: true }
+                }
+            });
+            expect((model.properties.breadcrumb as ArrayProperty).items)
+                .to.have.property('id', 'NodeResponseBreadcrumbItem');
+        });
+
+        it('names inline request and response bodies of endpoints by method and url', () => {
+            const models: ModelMap = {};
+            const endpoints = [{
+                method: 'POST',
+                url: '/{project}/nodes/{nodeUuid}',
+                description: '',
+                requestBody: {
+                    mimeType: 'application/json',
+                    schema: { type: 'object', properties: { name: { type: 'string' } } }
+                },
+                responses: {
+                    200: {
+                        description: '',
+                        responseBodySchema: { type: 'object', properties: { uuid: { type: 'string' } } }
+                    },
+                    409: {
+                        description: '',
+                        responseBodySchema: { type: 'object', properties: { message: { type: 'string' } } }
+                    }
+                }
+            }] as any as Endpoint[];
+            parser.nameInlineModels(models, endpoints);
+
+            expect(models).to.have.all.keys(
+                'PostProjectNodesNodeUuidRequest',
+                'PostProjectNodesNodeUuidResponse',
+                'PostProjectNodesNodeUuidResponse409'
+            );
+        });
+
+        it('appends a counter to names which are already taken', () => {
+            const models: ModelMap = {
+                NodeResponse: inlineModel(),
+                NodeResponseParentNode: { type: 'object', id: 'NodeResponseParentNode', properties: {} }
+            };
+            parser.nameInlineModels(models, []);
+            expect(models).to.have.property('NodeResponseParentNode2');
+        });
+
+        it('is called by parseRAML unless disabled in the options', async () => {
+            const parse = async (options?: any) => {
+                const instance = new MeshRamlParser(options) as MeshRamlParserExposeProtectedProperties;
+                instance.findModelsAndEndpoints = async () => ({ endpoints: [], models: { NodeResponse: inlineModel() } });
+                return instance.parseRAML({});
+            };
+
+            expect((await parse()).models).to.have.property('NodeResponseParentNode');
+            expect((await parse({ nameInlineModels: false })).models).to.have.all.keys('NodeResponse');
+        });
+
     });
 
 });
 
 class MeshRamlParserExposeProtectedProperties extends MeshRamlParser {
-    public parseYamlToObject(yaml: string) {
-        return super.parseYamlToObject(yaml);
+    public diagnostics: Diagnostic[];
+
+    public parseYamlToObject(yaml: string, filename?: string) {
+        return super.parseYamlToObject(yaml, filename);
     }
 
     public findModelsAndEndpoints(apiRaml: any) {
@@ -788,8 +1734,20 @@ class MeshRamlParserExposeProtectedProperties extends MeshRamlParser {
         return super.traverseResponseSchemas(responseMap, models);
     }
 
+    public extractBaseModels(models: ModelMap) {
+        return super.extractBaseModels(models);
+    }
+
     public normalizeSchema(schema: PropertyDefinition, models: ModelMap) {
         return super.normalizeSchema(schema, models);
     }
+
+    public nameInlineModels(models: ModelMap, endpoints: Endpoint[]) {
+        return super.nameInlineModels(models, endpoints);
+    }
+
+    public markRecursiveModels(models: ModelMap) {
+        return super.markRecursiveModels(models);
+    }
 }
 
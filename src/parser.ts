@@ -1,29 +1,136 @@
-import { safeLoad as loadYaml } from 'js-yaml';
-import { Endpoint, FormPartMap, ModelMap, ObjectProperty, Parameter, ParsedMeshRAML, PropertyDefinition, RequestSchemaInRAML, Response, ResponseMap, ResponseMapYaml, UrlParameterMap } from './interfaces';
+import { DEFAULT_SAFE_SCHEMA, LoadOptions, safeLoad as loadYaml, Schema as YamlSchema, Type as YamlType } from 'js-yaml';
+import { FileResolver, LocalFileResolver } from './file-resolver';
+import { BodyMap, Diagnostic, Endpoint, FormPartMap, ModelMap, ObjectProperty, Parameter, ParsedMeshRAML, PrimitiveProperty, PropertyDefinition, RequestBody, RequestSchemaInRAML, Response, ResponseMap, ResponseMapYaml, SourceLocation, UnionProperty, UrlParameterMap } from './interfaces';
 import { formatJsonAsPOJO } from './utils/format-as-pojo';
-import { unhandledCase } from './utils/unhandled-case';
+import { findJsonErrorOffset } from './utils/json-error-offset';
+import { pascalCase } from './utils/pascal-case';
+import { substituteTemplateParameters } from './utils/template-parameters';
 
 
 const requestMethods = ['delete', 'get', 'post', 'patch', 'put'];
 
+/** Numeric constraints of primitive and array properties, which can be strings in hand-written RAML. */
+type NumericConstraint = 'minimum' | 'maximum' | 'minLength' | 'maxLength' | 'minItems' | 'maxItems';
+const numericConstraints: NumericConstraint[] = ['minimum', 'maximum', 'minLength', 'maxLength', 'minItems', 'maxItems'];
+
+/** Included files with these extensions are parsed as YAML, all other files are included as string. */
+const yamlFileExtensions = /\.(raml|ya?ml)$/i;
+
+/** Placeholder for an `!include` tag, replaced with the contents of the file after loading the YAML. */
+class IncludeReference {
+    constructor(public path: string) { }
+}
+
+/** Offsets of the keys and values of a loaded YAML mapping or sequence in its source file. */
+interface YamlNodePositions {
+    file: string;
+    keys: { [key: string]: number };
+    values: { [key: string]: number };
+}
+
+/** A trait or resource type applied via `is` or `type`, e.g. `is: [ paged: { maxPerPage: 50 } ]` */
+interface TemplateReference {
+    name: string;
+    parameters: { [name: string]: any };
+}
+
+/** A string value of the document by its parent node and key, e.g. an embedded JSON schema. */
+export interface JsonSource {
+    node: any;
+    key: string | number;
+}
+
+const ramlYamlSchema = YamlSchema.create(DEFAULT_SAFE_SCHEMA, [
+    new YamlType('!include', {
+        kind: 'scalar',
+        construct: (path: string) => new IncludeReference(path)
+    })
+]);
+
+/** Returns true for YAML mappings, i.e. objects which are no arrays. */
+function isMapping(value: any): boolean {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+export const defaultParserOptions = {
+    /** Loads the files referenced by `!include` tags and RAML 1.0 libraries. */
+    fileResolver: new LocalFileResolver() as FileResolver,
+    /** Generate ids for inline object schemas and store them in the model hash. */
+    nameInlineModels: true,
+    /** Move property sets which multiple models have in common to base models, which these models extend. */
+    extractBaseModels: false,
+    /** Throw on errors in the document instead of collecting them as diagnostics. */
+    strict: false,
+    /**
+     * How to handle schemas which use the same id for different structures:
+     * keep the first definition, merge the properties of all definitions, or fail.
+     */
+    modelConflicts: 'first' as 'first' | 'merge' | 'fail'
+};
+export type ParserOptions = typeof defaultParserOptions;
+
 /**
  * Parses the Gentics Mesh RAML for request and response models.
  */
 export class MeshRamlParser {
+
+    public options: ParserOptions;
+
+    /** Problems found in the document that is currently parsed. */
+    protected diagnostics: Diagnostic[] = [];
+
+    /** Path of the node that is currently processed, used as location of diagnostics. */
+    protected currentPath: string[] = [];
+
+    /** Source position of the node that is currently processed, if the document was loaded from YAML. */
+    protected currentLocation: SourceLocation | undefined;
+
+    /** Source positions of the mappings and sequences loaded from YAML. */
+    protected yamlPositions = new WeakMap<object, YamlNodePositions>();
+
+    /** Paths of files which are included as string (e.g. JSON schemas), by the node and key they are included in. */
+    protected includedFiles = new WeakMap<object, { [key: string]: string }>();
+
+    /** Contents of all loaded files by their path, used to calculate lines and columns of source positions. */
+    protected sourceFiles: { [file: string]: string } = {};
+
+    /** Source positions of the parsed endpoints, used to locate problems found after traversing the resources. */
+    protected endpointLocations = new WeakMap<Endpoint, SourceLocation>();
+
+    /** Schemas or type names which are currently converted, used to detect circular references. */
+    protected conversionStack: any[] = [];
+
+    /** The traits declared in the document that is currently parsed, by name. */
+    protected traits: { [name: string]: any } = {};
+
+    /** The resource types declared in the document that is currently parsed, by name. */
+    protected resourceTypes: { [name: string]: any } = {};
+
+    constructor(options?: Partial<ParserOptions>) {
+        this.options = { ...defaultParserOptions, ...(options || {}) };
+    }
+
     /**
      * Entry point. Parses mesh RAML from a string.
+     * @param filename Path of the RAML file, `!include` tags are resolved relative to it.
      */
-    public async parseRAML(ramlString: string): Promise<ParsedMeshRAML>;
+    public async parseRAML(ramlString: string, filename?: string): Promise<ParsedMeshRAML>;
 
     /**
      * Entry point. Parses mesh RAML from an already-parsed RAML object.
      */
     public async parseRAML(ramlObject: object): Promise<ParsedMeshRAML>;
 
-    public async parseRAML(raml: string | object): Promise<ParsedMeshRAML> {
+    public async parseRAML(raml: string | object, filename?: string): Promise<ParsedMeshRAML> {
+        this.diagnostics = [];
+        this.currentPath = [];
+        this.currentLocation = undefined;
+        this.sourceFiles = {};
+        this.conversionStack = [];
+
         let ramlDocument: any;
         if (typeof raml === 'string') {
-            ramlDocument = await this.parseYamlToObject(raml);
+            ramlDocument = await this.parseYamlToObject(raml, filename);
         } else if (typeof raml === 'object' && !!raml) {
             ramlDocument = raml;
         } else {
@@ -31,44 +138,560 @@ export class MeshRamlParser {
         }
 
         const { models, endpoints } = await this.findModelsAndEndpoints(ramlDocument);
+        const { baseUri, version } = this.getDocumentInfo(ramlDocument);
+        if (this.options.nameInlineModels && models && endpoints) {
+            this.nameInlineModels(models, endpoints);
+        }
+        if (this.options.extractBaseModels && models) {
+            this.extractBaseModels(models);
+        }
+        if (models) {
+            this.markRecursiveModels(models);
+        }
         return {
-            baseUri: ramlDocument.baseUri,
+            baseUri,
             endpoints,
             models,
-            version: ramlDocument.version
+            version,
+            diagnostics: this.diagnostics
+        };
+    }
+
+    /**
+     * Reports a problem in the parsed document.
+     * Errors are thrown in strict mode, otherwise all problems are collected and returned with the result.
+     */
+    protected report(severity: Diagnostic['severity'], code: string, message: string,
+            path = this.currentPath, location = this.currentLocation): void {
+        if (severity === 'error' && this.options.strict) {
+            throw this.createError(message, path, location);
+        }
+        const pathText = path.join('\n');
+        const isDuplicate = this.diagnostics.some(existing =>
+            existing.code === code && existing.message === message && existing.path.join('\n') === pathText);
+        if (!isDuplicate) {
+            const diagnostic: Diagnostic = { severity, code, message, path: path.slice() };
+            if (location) {
+                diagnostic.location = location;
+            }
+            this.diagnostics.push(diagnostic);
+        }
+    }
+
+    /** Creates an error with the path and source position of the offending node, e.g. "(at /users > get, api.raml:12:3)". */
+    protected createError(message: string, path = this.currentPath, location = this.currentLocation): Error {
+        const position = location ? `${location.file || '<input>'}:${location.line}:${location.column}` : '';
+        const where = [path.join(' > '), position].filter(part => !!part).join(', ');
+        return new Error(`${this.constructor.name}: ${message}${where ? ` (at ${where})` : ''}`);
+    }
+
+    /**
+     * Converts a schema or declared type unless it is already being converted further up the stack.
+     * Returns the result of `onCycle` for circular references.
+     *
+     * @param key The schema object or the name of the type.
+     */
+    protected async convertWithoutCycles<T>(key: any, convert: () => Promise<T>, onCycle: () => T): Promise<T> {
+        if (this.conversionStack.indexOf(key) >= 0) {
+            return onCycle();
+        }
+        this.conversionStack.push(key);
+        try {
+            return await convert();
+        } finally {
+            this.conversionStack.pop();
+        }
+    }
+
+    /**
+     * Parses an embedded JSON string of the document, invalid JSON is reported and returns undefined.
+     * @param source The node and key of the string, used to report the source position of syntax errors.
+     */
+    protected parseJson(json: string, severity: Diagnostic['severity'], path: string[], source?: JsonSource): any {
+        try {
+            return JSON.parse(json);
+        } catch (err) {
+            const offset = findJsonErrorOffset(json);
+            const location = (source && this.locateInString(source, json, Math.max(offset, 0))) || this.currentLocation;
+            this.report(severity, 'invalid-json', `Invalid JSON: ${err.message}`, path, location);
+            return undefined;
+        }
+    }
+
+    /** Parses and normalizes a JSON schema which is embedded in the document as string. */
+    protected async parseEmbeddedSchema(json: string, models: ModelMap, path: string[], source?: JsonSource): Promise<PropertyDefinition | undefined> {
+        const schema: PropertyDefinition | undefined = this.parseJson(json, 'error', path, source);
+        if (!schema) {
+            return undefined;
+        }
+
+        // Problems in the schema are reported at the position of the embedded string
+        const parentLocation = this.currentLocation;
+        this.currentLocation = (source && this.locate(source.node, source.key, 'value')) || parentLocation;
+        try {
+            return await this.normalizeSchema(schema, models);
+        } finally {
+            this.currentLocation = parentLocation;
+        }
+    }
+
+    /** Returns the API baseUri and version stated in the parsed document. */
+    protected getDocumentInfo(document: any): { baseUri: string, version: string } {
+        return {
+            baseUri: document.baseUri,
+            version: document.version
+        };
+    }
+
+    /**
+     * Entry point. Parses mesh RAML from a file and all files it includes.
+     * Files are loaded via the `fileResolver` passed in the parser options.
+     */
+    public async parseRAMLFile(filename: string): Promise<ParsedMeshRAML> {
+        const path = this.options.fileResolver.resolvePath(filename, '');
+        const ramlString = await this.options.fileResolver.readFile(path);
+        return this.parseRAML(ramlString, path);
+    }
+
+    protected async parseYamlToObject(yaml: string, filename = ''): Promise<Object> {
+        const path = filename ? this.options.fileResolver.resolvePath(filename, '') : '';
+        const document = this.loadYaml(yaml, path);
+        return this.resolveIncludes(document, path, path ? [path] : []);
+    }
+
+    /** Loads a YAML document and records the source positions of its mappings and sequences. */
+    protected loadYaml(content: string, file: string): any {
+        this.sourceFiles[file] = content;
+        const stack: Array<{ start: number, children: Array<{ start: number, result: any }> }> = [
+            { start: 0, children: [] }
+        ];
+
+        // js-yaml calls the listener when it starts and finishes reading a node
+        const listener = (event: 'open' | 'close', state: { position: number, result: any }) => {
+            if (event === 'open') {
+                stack.push({ start: state.position, children: [] });
+            } else {
+                const node = stack.pop()!;
+                this.recordYamlPositions(state.result, node.children, file);
+                stack[stack.length - 1].children.push({ start: node.start, result: state.result });
+            }
+        };
+
+        return loadYaml(content, { schema: ramlYamlSchema, filename: file || undefined, listener } as LoadOptions);
+    }
+
+    /**
+     * Stores the positions of the keys and values of a loaded mapping or sequence.
+     * @param children The nodes read while reading the mapping (alternating keys and values) or sequence (items).
+     */
+    private recordYamlPositions(result: any, children: Array<{ start: number, result: any }>, file: string): void {
+        if (!result || typeof result !== 'object' || result instanceof IncludeReference
+                || !children.length || this.yamlPositions.has(result)) {
+            return;
+        }
+
+        const positions: YamlNodePositions = { file, keys: {}, values: {} };
+        if (Array.isArray(result)) {
+            if (children.length !== result.length) {
+                return;
+            }
+            children.forEach((child, index) => positions.values[index] = child.start);
+        } else {
+            if (children.length % 2 !== 0) {
+                return;
+            }
+            for (let index = 0; index < children.length; index += 2) {
+                const key = String(children[index].result);
+                positions.keys[key] = children[index].start;
+                positions.values[key] = children[index + 1].start;
+            }
+        }
+        this.yamlPositions.set(result, positions);
+    }
+
+    /** Returns the source position of a key (or its value) in a mapping or sequence loaded from YAML. */
+    protected locate(node: any, key: string | number, target: 'key' | 'value' = 'key'): SourceLocation | undefined {
+        const positions = node && typeof node === 'object' ? this.yamlPositions.get(node) : undefined;
+        if (!positions) {
+            return undefined;
+        }
+
+        // Items of sequences only have a value position
+        let offset = target === 'key' ? positions.keys[key] : undefined;
+        if (offset === undefined) {
+            offset = positions.values[key];
+        }
+        if (offset === undefined) {
+            return undefined;
+        }
+
+        // Positions of values start after the ":" of their key
+        const content = this.sourceFiles[positions.file] || '';
+        while (offset < content.length && /\s/.test(content[offset])) {
+            offset++;
+        }
+        return this.toSourceLocation(positions.file, offset);
+    }
+
+    /**
+     * Returns the source position of an offset in a string of the document,
+     * e.g. of a syntax error in an embedded JSON schema.
+     */
+    protected locateInString(source: JsonSource, text: string, offset: number): SourceLocation | undefined {
+        const includedFile = (this.includedFiles.get(source.node) || {})[source.key];
+        if (includedFile !== undefined) {
+            return this.toSourceLocation(includedFile, offset);
+        }
+
+        const start = this.locate(source.node, source.key, 'value');
+        if (!start) {
+            return undefined;
+        }
+
+        const linesBefore = text.substr(0, offset).split('\n');
+        const lineInText = linesBefore.length - 1;
+        const columnInText = linesBefore[lineInText].length;
+
+        const sourceLines = (this.sourceFiles[start.file] || '').split('\n');
+        const scalarStart = (sourceLines[start.line - 1] || '').substr(start.column - 1);
+        if (/^[|>]/.test(scalarStart)) {
+            // Block scalars start in the next line and are indented
+            const indentation = /^ */.exec(sourceLines[start.line] || '')![0].length;
+            return { file: start.file, line: start.line + 1 + lineInText, column: indentation + columnInText + 1 };
+        }
+
+        const quoteLength = /^["']/.test(scalarStart) ? 1 : 0;
+        return {
+            file: start.file,
+            line: start.line + lineInText,
+            column: lineInText === 0 ? start.column + quoteLength + columnInText : columnInText + 1
         };
     }
 
-    protected async parseYamlToObject(yaml: string): Promise<Object> {
-        return loadYaml(yaml);
+    /** Converts an offset in a loaded file to line and column. */
+    protected toSourceLocation(file: string, offset: number): SourceLocation {
+        const linesBefore = (this.sourceFiles[file] || '').substr(0, offset).split('\n');
+        return {
+            file,
+            line: linesBefore.length,
+            column: linesBefore[linesBefore.length - 1].length + 1
+        };
+    }
+
+    /**
+     * Replaces `!include` tags and RAML 1.0 library paths in a loaded YAML document
+     * with the contents of the referenced files.
+     *
+     * @param document The loaded YAML document.
+     * @param filename The resolved path of the document, used to resolve relative paths.
+     * @param includeStack The chain of files which included the document, used to detect circular includes.
+     */
+    protected async resolveIncludes(document: any, filename: string, includeStack: string[]): Promise<any> {
+        const resolveTags = async (value: any): Promise<any> => {
+            if (value instanceof IncludeReference) {
+                return this.loadIncludedFile(value.path, filename, includeStack);
+            } else if (value && typeof value === 'object') {
+                for (let key of Object.keys(value)) {
+                    const original = value[key];
+                    value[key] = await resolveTags(original);
+
+                    // Remember the file of included strings to locate errors in them
+                    if (original instanceof IncludeReference && typeof value[key] === 'string') {
+                        const includedFiles = this.includedFiles.get(value) || {};
+                        includedFiles[key] = this.options.fileResolver.resolvePath(original.path, filename);
+                        this.includedFiles.set(value, includedFiles);
+                    }
+                }
+            }
+            return value;
+        };
+
+        const result = await resolveTags(document);
+
+        // RAML 1.0 libraries are referenced by their path, e.g. "uses: { lib: libraries/types.raml }"
+        const libraries = result && result.uses;
+        if (libraries && typeof libraries === 'object') {
+            for (let namespace of Object.keys(libraries)) {
+                if (typeof libraries[namespace] === 'string') {
+                    libraries[namespace] = await this.loadIncludedFile(libraries[namespace], filename, includeStack);
+                }
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Loads a file referenced from another file.
+     * YAML and RAML files are parsed (including their own includes), other files are returned as string.
+     */
+    protected async loadIncludedFile(path: string, referencedFrom: string, includeStack: string[]): Promise<any> {
+        const resolvedPath = this.options.fileResolver.resolvePath(path, referencedFrom);
+        if (includeStack.indexOf(resolvedPath) >= 0) {
+            const chain = includeStack.concat(resolvedPath).join(' -> ');
+            throw new Error(`MeshRamlParser: Circular include of "${path}" (${chain})`);
+        }
+
+        const content = await this.options.fileResolver.readFile(resolvedPath);
+        if (!yamlFileExtensions.test(resolvedPath)) {
+            this.sourceFiles[resolvedPath] = content;
+            return content;
+        }
+
+        const document = this.loadYaml(content, resolvedPath);
+        return this.resolveIncludes(document, resolvedPath, includeStack.concat(resolvedPath));
     }
 
     protected async findModelsAndEndpoints(apiRaml: any) {
-        const paths = Object.keys(apiRaml).filter(key => key.startsWith('/'));
         const models: { [name: string]: PropertyDefinition } = {};
+        const endpoints = await this.findEndpoints(apiRaml, models);
+        return { endpoints, models };
+    }
+
+    /** Traverses all resources of the document for endpoints and stores their models in the passed model hash. */
+    protected async findEndpoints(apiRaml: any, models: ModelMap): Promise<Endpoint[]> {
+        const paths = Object.keys(apiRaml).filter(key => key.startsWith('/'));
         const endpoints: Endpoint[] = [];
 
+        this.traits = await this.collectTemplateDeclarations(apiRaml, 'traits');
+        this.resourceTypes = await this.collectTemplateDeclarations(apiRaml, 'resourceTypes');
+
         for (let pathName of paths) {
-            const path = apiRaml[pathName];
-            const childPaths = Object.keys(path).filter(key => key.startsWith('/'));
+            await this.traverseResource(apiRaml[pathName], pathName, undefined, models, endpoints);
+        }
+
+        this.addMissingUriParameters(endpoints);
 
-            for (let childPathName of childPaths) {
-                const childPath = path[childPathName];
-                const methods = Object.keys(childPath).filter(key => requestMethods.indexOf(key) >= 0);
+        return endpoints;
+    }
+
+    /**
+     * Recursively traverses a resource and its child resources for endpoints.
+     * The URL segments and `uriParameters` of all parent resources are passed down to their children.
+     * Resource types and traits are applied to the resource and its methods before they are traversed.
+     */
+    protected async traverseResource(resource: any, url: string, parentUriParams: UrlParameterMap | undefined, models: ModelMap, endpoints: Endpoint[]): Promise<void> {
+        const normalizedUrl = url.replace(/\/+/g, '/').replace(/(.)\/$/, '$1');
+        const reservedParameters = {
+            resourcePath: normalizedUrl,
+            resourcePathName: normalizedUrl.split('/').filter(segment => segment && !/[{}]/.test(segment)).pop() || ''
+        };
+
+        this.currentPath = [normalizedUrl];
+        resource = this.applyResourceType(resource || {}, reservedParameters, []);
+
+        const ownUriParams = resource.uriParameters ? this.parseUriParameters(resource.uriParameters) : undefined;
+        const uriParams = (parentUriParams || ownUriParams)
+            ? Object.assign({}, parentUriParams, ownUriParams)
+            : undefined;
+
+        const methods = Object.keys(resource).filter(key => requestMethods.indexOf(key) >= 0);
+        for (let methodName of methods) {
+            this.currentPath = [normalizedUrl, methodName];
+            this.currentLocation = this.locate(resource, methodName);
+            const traitReferences = this.parseTemplateReferences((resource[methodName] || {}).is)
+                .concat(this.parseTemplateReferences(resource.is));
+            const requestSchemaRaml = this.applyTraits(resource[methodName] || {}, traitReferences,
+                { ...reservedParameters, methodName });
+            const parsedRequest = await this.traverseRequest(requestSchemaRaml, methodName, normalizedUrl, uriParams, models);
+            if (this.currentLocation) {
+                this.endpointLocations.set(parsedRequest, this.currentLocation);
+            }
+            endpoints.push(parsedRequest);
+        }
+
+        const childPaths = Object.keys(resource).filter(key => key.startsWith('/'));
+        for (let childPathName of childPaths) {
+            await this.traverseResource(resource[childPathName], url + childPathName, uriParams, models, endpoints);
+        }
+    }
+
+    /**
+     * Returns the trait or resource type declarations of a document by name.
+     * RAML 0.8 declares them as an array of single-key objects, RAML 1.0 as an object.
+     */
+    protected async collectTemplateDeclarations(document: any, key: 'traits' | 'resourceTypes'): Promise<{ [name: string]: any }> {
+        const declarations = document[key];
+        return Array.isArray(declarations)
+            ? Object.assign({}, ...declarations)
+            : Object.assign({}, declarations);
+    }
 
-                for (let methodName of methods) {
-                    const requestSchemaRaml = childPath[methodName];
-                    const url = (pathName + (childPathName === '/' ? '' : childPathName)).replace(/\/+/, '/');
-                    const urlParams = childPath.uriParameters;
-                    const parsedRequest = await this.traverseRequest(requestSchemaRaml, methodName, url, urlParams, models);
-                    endpoints.push(parsedRequest);
+    /** Parses the value of `is` or `type`, which can be a name, a name with parameters or a list of both. */
+    protected parseTemplateReferences(value: any): TemplateReference[] {
+        const references: TemplateReference[] = [];
+        const list = value === undefined || value === null ? [] : Array.isArray(value) ? value : [value];
+        for (let item of list) {
+            if (typeof item === 'string') {
+                references.push({ name: item, parameters: {} });
+            } else if (item && typeof item === 'object') {
+                for (let name of Object.keys(item)) {
+                    references.push({ name, parameters: item[name] || {} });
                 }
             }
         }
+        return references;
+    }
 
-        this.addMissingUriParameters(endpoints);
+    /**
+     * Merges the resource type referenced in the `type` of a resource (and the resource types it inherits from)
+     * into the resource. Values of the resource take precedence over values of the resource type,
+     * optional methods of the resource type (e.g. `get?`) are only applied if the resource declares them.
+     */
+    protected applyResourceType(resource: any, reservedParameters: { [name: string]: string }, typeStack: string[]): any {
+        const reference = this.parseTemplateReferences(resource.type)[0];
+        if (!reference) {
+            return resource;
+        }
 
-        return { endpoints, models };
+        const location = this.locate(resource, 'type');
+        const declaration = this.resourceTypes[reference.name];
+        if (declaration === undefined) {
+            this.report('error', 'unknown-resource-type', `Resource type "${reference.name}" is not declared`,
+                this.currentPath, location);
+            return resource;
+        } else if (typeStack.indexOf(reference.name) >= 0) {
+            this.report('error', 'circular-resource-type', `Resource type "${reference.name}" inherits from itself`,
+                this.currentPath, location);
+            return resource;
+        }
+
+        const parameters = { ...reference.parameters, ...reservedParameters };
+        const resourceType = this.applyResourceType(
+            this.applyTemplateParameters(declaration || {}, parameters, location),
+            reservedParameters,
+            typeStack.concat(reference.name));
+
+        const result = this.cloneNode(resource);
+        delete result.type;
+        for (let key of Object.keys(resourceType)) {
+            const targetKey = key.replace(/\?$/, '');
+            if (key === 'type' || key === 'usage' || (key !== targetKey && !result.hasOwnProperty(targetKey))) {
+                continue;
+            }
+
+            // Traits of the resource (or method) and its resource type are both applied
+            if (key === 'is') {
+                result.is = this.concatTemplateReferences(result.is, resourceType.is);
+                continue;
+            }
+
+            const merged = this.mergeNodes(result[targetKey], resourceType[key]);
+            if (requestMethods.indexOf(targetKey) >= 0 && isMapping(merged)) {
+                const traits = this.concatTemplateReferences((result[targetKey] || {}).is, (resourceType[key] || {}).is);
+                if (traits.length) {
+                    merged.is = traits;
+                }
+            }
+            result[targetKey] = merged;
+        }
+        return result;
+    }
+
+    /**
+     * Merges the traits referenced in the `is` of a method and its resource into the method.
+     * Values of the method take precedence over values of the traits, traits which are listed first
+     * take precedence over later ones.
+     */
+    protected applyTraits(method: any, references: TemplateReference[], reservedParameters: { [name: string]: string }): any {
+        let result = this.cloneNode(method);
+        delete result.is;
+
+        for (let reference of references) {
+            const location = this.locate(method, 'is') || this.currentLocation;
+            const declaration = this.traits[reference.name];
+            if (declaration === undefined) {
+                this.report('error', 'unknown-trait', `Trait "${reference.name}" is not declared`, this.currentPath, location);
+                continue;
+            }
+
+            const trait = this.applyTemplateParameters(declaration || {}, { ...reference.parameters, ...reservedParameters }, location);
+            for (let key of Object.keys(trait)) {
+                const targetKey = key.replace(/\?$/, '');
+                if (key !== 'usage' && (key === targetKey || result.hasOwnProperty(targetKey))) {
+                    result[targetKey] = this.mergeNodes(result[targetKey], trait[key]);
+                }
+            }
+        }
+        return result;
+    }
+
+    /** Returns the references of two `is` values as one list. */
+    private concatTemplateReferences(first: any, second: any): any[] {
+        const toList = (value: any) => value === undefined || value === null ? [] : Array.isArray(value) ? value : [value];
+        return toList(first).concat(toList(second));
+    }
+
+    /** Merges the values of a trait or resource type into a node. Values of the node take precedence. */
+    private mergeNodes(target: any, source: any): any {
+        if (target === undefined || target === null) {
+            return source;
+        } else if (!isMapping(target) || !isMapping(source)) {
+            return target;
+        }
+
+        const result = this.cloneNode(target);
+        for (let key of Object.keys(source)) {
+            result[key] = this.mergeNodes(result[key], source[key]);
+        }
+        return result;
+    }
+
+    /** Returns a copy of a trait or resource type with its `<<parameters>>` replaced in all keys and string values. */
+    private applyTemplateParameters(node: any, parameters: { [name: string]: any }, location: SourceLocation | undefined): any {
+        const onError = (message: string) => this.report('error', 'invalid-template-parameter', message, this.currentPath, location);
+
+        if (typeof node === 'string') {
+            return substituteTemplateParameters(node, parameters, onError);
+        } else if (Array.isArray(node)) {
+            return this.cloneNode(node).map(item => this.applyTemplateParameters(item, parameters, location));
+        } else if (!isMapping(node)) {
+            return node;
+        }
+
+        // Keys can contain parameters as well, the source positions are stored by the replaced key
+        const result: any = {};
+        const positions = this.yamlPositions.get(node);
+        const newPositions: YamlNodePositions | undefined = positions && { file: positions.file, keys: {}, values: {} };
+        const includedFiles = this.includedFiles.get(node);
+        const newIncludedFiles: { [key: string]: string } = {};
+        for (let key of Object.keys(node)) {
+            const newKey = substituteTemplateParameters(key, parameters, onError);
+            result[newKey] = this.applyTemplateParameters(node[key], parameters, location);
+            if (positions && newPositions) {
+                newPositions.keys[newKey] = positions.keys[key];
+                newPositions.values[newKey] = positions.values[key];
+            }
+            if (includedFiles && includedFiles[key] !== undefined) {
+                newIncludedFiles[newKey] = includedFiles[key];
+            }
+        }
+        if (newPositions) {
+            this.yamlPositions.set(result, newPositions);
+        }
+        if (includedFiles) {
+            this.includedFiles.set(result, newIncludedFiles);
+        }
+        return result;
+    }
+
+    /** Returns a shallow copy of a mapping or sequence of the document which keeps its source positions. */
+    private cloneNode<T extends object>(node: T): T {
+        const copy = (Array.isArray(node) ? node.slice() : { ...(node as any) }) as T;
+        const positions = this.yamlPositions.get(node);
+        if (positions) {
+            this.yamlPositions.set(copy, positions);
+        }
+        const includedFiles = this.includedFiles.get(node);
+        if (includedFiles) {
+            this.includedFiles.set(copy, includedFiles);
+        }
+        return copy;
+    }
+
+    /** Parses the `uriParameters` of a resource. */
+    protected parseUriParameters(uriParameters: any): UrlParameterMap {
+        return uriParameters;
     }
 
     /** For parent-child endpoints (e.g. "/{project}", "/{project}/nodes"), add the uri parameters of the parent. */
@@ -98,7 +721,12 @@ export class MeshRamlParser {
                     if (parentEndpoint && parentEndpoint.urlParameters && parentEndpoint.urlParameters[paramName]) {
                         endpoint.urlParameters = Object.assign({}, parentEndpoint.urlParameters, endpoint.urlParameters || {});
                     } else {
-                        throw new Error(`MeshRamlParser: No definition of URL parameter "${paramName}" can be found for url "${endpoint.url}"`);
+                        this.report('error', 'missing-uri-parameter',
+                            `No definition of URL parameter "${paramName}" can be found for url "${endpoint.url}"`,
+                            [endpoint.url], this.endpointLocations.get(endpoint));
+                        endpoint.urlParameters = Object.assign({}, endpoint.urlParameters, {
+                            [paramName]: { description: '', type: 'string', required: true, repeat: false } as Parameter
+                        });
                     }
                 }
             }
@@ -114,19 +742,26 @@ export class MeshRamlParser {
             description: requestSchema.description,
             responses: {}
         };
+        if (requestSchema.headers) {
+            parsedRequest.headers = requestSchema.headers;
+        }
 
         const body = requestSchema.body;
         const jsonBody: { schema: string; example: string; } = body && (body as any)['application/json'];
         const formBody: FormPartMap = body && ((body as any)['multipart/form-data'] || {} as any).formParameters;
 
         if (jsonBody) {
+            const bodyPath = this.currentPath.concat('body', 'application/json');
             parsedRequest.requestBody = { mimeType: 'application/json' };
             if (jsonBody.example) {
-                parsedRequest.requestBody.example = JSON.parse(jsonBody.example);
+                parsedRequest.requestBody.example = this.parseJson(jsonBody.example, 'warning', bodyPath.concat('example'),
+                    { node: jsonBody, key: 'example' });
             }
-            if (jsonBody.schema) {
-                const schema: PropertyDefinition = JSON.parse(jsonBody.schema);
-                parsedRequest.requestBody.schema = await this.normalizeSchema(schema, models);
+            const schema = jsonBody.schema
+                ? await this.parseEmbeddedSchema(jsonBody.schema, models, bodyPath.concat('schema'), { node: jsonBody, key: 'schema' })
+                : undefined;
+            if (schema) {
+                parsedRequest.requestBody.schema = schema;
             }
         } else if (formBody) {
             parsedRequest.requestBody = { mimeType: 'multipart/form-data' };
@@ -138,6 +773,12 @@ export class MeshRamlParser {
             parsedRequest.requestBody.schema = formSchema as ObjectProperty;
         }
 
+        const requestBodies = this.collectBodies(body, parsedRequest.requestBody);
+        if (requestBodies) {
+            parsedRequest.requestBodies = requestBodies;
+            parsedRequest.requestBody = parsedRequest.requestBody || requestBodies[Object.keys(requestBodies)[0]];
+        }
+
         parsedRequest.responses = await this.traverseResponseSchemas(requestSchema.responses, models);
 
         return parsedRequest;
@@ -159,20 +800,37 @@ export class MeshRamlParser {
 
         for (let responseCode of Object.keys(responseMap || {})) {
             const responseYaml = responseMap[Number(responseCode)];
+            const bodyPath = this.currentPath.concat('responses', responseCode, 'body', 'application/json');
 
             let result: Response = {
                 description: responseYaml.description,
                 responseBodyExample: undefined,
                 responseBodySchema: undefined
             };
+            if (responseYaml.headers) {
+                result.headers = responseYaml.headers;
+            }
 
             const responseBody = responseYaml.body && responseYaml.body['application/json'];
             if (responseBody && responseBody.example) {
-                result.responseBodyExample = JSON.parse(responseBody.example);
+                result.responseBodyExample = this.parseJson(responseBody.example, 'warning', bodyPath.concat('example'),
+                    { node: responseBody, key: 'example' });
             }
             if (responseBody && responseBody.schema) {
-                const schema: PropertyDefinition = JSON.parse(responseBody.schema);
-                result.responseBodySchema = await this.normalizeSchema(schema, models);
+                result.responseBodySchema = await this.parseEmbeddedSchema(responseBody.schema, models, bodyPath.concat('schema'),
+                    { node: responseBody, key: 'schema' });
+            }
+
+            const jsonBody = responseBody ? { mimeType: 'application/json' } as RequestBody : undefined;
+            if (jsonBody && result.responseBodySchema) {
+                jsonBody.schema = result.responseBodySchema;
+            }
+            if (jsonBody && result.responseBodyExample !== undefined) {
+                jsonBody.example = result.responseBodyExample;
+            }
+            const bodies = this.collectBodies(responseYaml.body, jsonBody);
+            if (bodies) {
+                result.bodies = bodies;
             }
 
             responseTypes[Number(responseCode)] = result;
@@ -180,21 +838,130 @@ export class MeshRamlParser {
         return responseTypes;
     }
 
+    /**
+     * Collects the bodies of a request or response by media type.
+     * Bodies of other media types than JSON and forms (e.g. binary data or text) are stored without a schema.
+     * @param parsedBody The already parsed JSON or form body.
+     */
+    protected collectBodies(body: any, parsedBody: RequestBody | undefined): BodyMap | undefined {
+        const bodies: BodyMap = {};
+        if (parsedBody) {
+            bodies[parsedBody.mimeType] = parsedBody;
+        }
+
+        for (let mimeType of Object.keys(body || {})) {
+            if (mimeType !== 'application/json' && mimeType !== 'multipart/form-data') {
+                const declaration = body[mimeType] || {};
+                bodies[mimeType] = { mimeType };
+                if (typeof declaration.example === 'string') {
+                    bodies[mimeType].example = declaration.example;
+                }
+            }
+        }
+
+        return Object.keys(bodies).length ? bodies : undefined;
+    }
+
+    /**
+     * Generates ids for object schemas which are declared inline without an id, and stores them in the model hash.
+     * The ids are derived from the parent model and the property path (e.g. "UserResponse" + "nodeReference"
+     * => "UserResponseNodeReference"), or from the endpoint for request and response bodies.
+     */
+    protected nameInlineModels(models: ModelMap, endpoints: Endpoint[]): void {
+        const visited: PropertyDefinition[] = [];
+
+        const visit = (schema: PropertyDefinition | undefined, nameHint: string): void => {
+            if (!schema || typeof schema !== 'object' || visited.indexOf(schema) >= 0) {
+                return;
+            }
+            visited.push(schema);
+
+            switch (schema.type) {
+                case 'array':
+                    visit(schema.items, nameHint + 'Item');
+                    break;
+
+                case 'object':
+                    if (!schema.id && !schema.$ref && schema.properties && Object.keys(schema.properties).length) {
+                        let id = nameHint;
+                        for (let counter = 2; id in models; counter++) {
+                            id = nameHint + counter;
+                        }
+                        schema.id = id;
+                        schema.inline = true;
+                        models[id] = schema;
+                    }
+
+                    const parentName = schema.id || nameHint;
+                    for (let key of Object.keys(schema.properties || {})) {
+                        visit(schema.properties[key], parentName + pascalCase(key));
+                    }
+                    visit(schema.additionalProperties, parentName + 'Value');
+                    break;
+
+                case 'union':
+                    schema.variants.forEach((variant, index) => visit(variant, nameHint + 'Variant' + (index + 1)));
+                    break;
+
+                case 'intersection':
+                    schema.members.forEach((member, index) => visit(member, nameHint + 'Part' + (index + 1)));
+                    break;
+            }
+        };
+
+        for (let name of Object.keys(models)) {
+            visit(models[name], name);
+        }
+
+        for (let endpoint of endpoints) {
+            const baseName = pascalCase(endpoint.method.toLowerCase()) + pascalCase(endpoint.url);
+            if (endpoint.requestBody && endpoint.requestBody.mimeType !== 'multipart/form-data') {
+                visit(endpoint.requestBody.schema, baseName + 'Request');
+            }
+            for (let statusCode of Object.keys(endpoint.responses || {})) {
+                const suffix = statusCode === '200' ? '' : statusCode;
+                visit(endpoint.responses[Number(statusCode)].responseBodySchema, baseName + 'Response' + suffix);
+            }
+        }
+    }
+
     /**
      * Normalizes the passed schema from the YAML input.
      * When schema was already parsed, the old reference is returned.
      * Object and array schemas are traversed recursively and stored in the passed model hash.
      */
     async normalizeSchema(schema: PropertyDefinition, modelMap: ModelMap): Promise<PropertyDefinition> {
+        return this.convertWithoutCycles(schema, () => this.normalizeSchemaByType(schema, modelMap), () => {
+            if (schema.type === 'object') {
+                // Self-containing inline objects are named by nameInlineModels and rendered by their name
+                return schema;
+            }
+            this.report('error', 'circular-reference', `Schema of type "${schema.type}" contains itself`);
+            return { type: 'any' } as PropertyDefinition;
+        });
+    }
+
+    /** Normalizes a schema by its type, nested schemas are normalized via {@link normalizeSchema}. */
+    protected async normalizeSchemaByType(schema: PropertyDefinition, modelMap: ModelMap): Promise<PropertyDefinition> {
+        const composedSchema = schema as any;
+        if (composedSchema.allOf || composedSchema.oneOf || composedSchema.anyOf) {
+            return this.normalizeComposedSchema(composedSchema, modelMap);
+        } else if (Array.isArray(schema.type)) {
+            return this.normalizeTypeArray(composedSchema, modelMap);
+        }
+
         switch (schema.type) {
             case 'any':
             case 'boolean':
             case 'integer':
             case 'number':
             case 'string':
+                this.normalizeConstraints(schema);
                 return schema;
 
             case 'array':
+                this.normalizeConstraints(schema);
+
                 // Sometimes, the array type does not provide a "type" key. Needs to be fixed.
                 let arrayType: PropertyDefinition = schema.items;
                 if (!arrayType.type && (arrayType as ObjectProperty).$ref) {
@@ -205,7 +972,18 @@ export class MeshRamlParser {
 
             case 'object':
                 const id = schema.$ref || schema.id || '';
-                if (id in modelMap) {
+                if (id && schema.nullable) {
+                    // Only this use of the model is nullable, the model itself is stored without the flag
+                    delete schema.nullable;
+                    await this.normalizeSchemaByType(schema, modelMap);
+                    const nullableRef = { type: 'object', $ref: id, nullable: true } as ObjectProperty;
+                    if (schema.required !== undefined) {
+                        nullableRef.required = schema.required;
+                    }
+                    return nullableRef;
+                } else if (id in modelMap && schema.id && !schema.$ref && modelMap[id] !== schema && modelMap[id].type === 'object') {
+                    return this.reconcileModels(modelMap[id] as ObjectProperty, schema, modelMap);
+                } else if (id in modelMap) {
                     return modelMap[id];
                 } else if (schema.id) {
                     modelMap[schema.id] = schema;
@@ -224,8 +1002,392 @@ export class MeshRamlParser {
 
                 return schema;
 
+            case 'union':
+            case 'intersection':
+                return schema;
+
+            default:
+                // Unknown types are typed as "any" to generate the remaining models
+                this.report('error', 'unsupported-schema-type', `Unsupported schema type "${(schema as any).type}"`);
+                return { type: 'any' };
+        }
+    }
+
+    /**
+     * Compares a schema with the model which was stored with the same id before and reports their differences.
+     * Depending on the `modelConflicts` option, the first definition is kept, the properties of both
+     * definitions are merged (properties missing in one definition are optional) or an error is thrown.
+     */
+    protected async reconcileModels(existing: ObjectProperty, duplicate: ObjectProperty, modelMap: ModelMap): Promise<PropertyDefinition> {
+        const duplicateProperties: { [name: string]: PropertyDefinition } = {};
+        for (let key of Object.keys(duplicate.properties || {})) {
+            duplicateProperties[key] = await this.normalizeSchema(duplicate.properties[key], modelMap);
+        }
+
+        existing.properties = existing.properties || {};
+        const differences: string[] = [];
+        const keys = Object.keys(existing.properties);
+        for (let key of Object.keys(duplicateProperties)) {
+            if (keys.indexOf(key) < 0) {
+                keys.push(key);
+            }
+        }
+        for (let key of keys) {
+            const first = existing.properties[key];
+            const second = duplicateProperties[key];
+            if (!first || !second) {
+                differences.push(`"${key}" is missing in the ${first ? 'second' : 'first'} definition`);
+            } else if (this.describeSchema(first) !== this.describeSchema(second)) {
+                differences.push(`"${key}" is ${this.describeSchema(first)} and ${this.describeSchema(second)}`);
+            }
+        }
+
+        if (!differences.length) {
+            return existing;
+        }
+
+        const message = `Conflicting definitions of model "${existing.id}": ${differences.join(', ')}`;
+        if (this.options.modelConflicts === 'fail') {
+            throw this.createError(message);
+        }
+        this.report('warning', 'conflicting-model', message);
+
+        if (this.options.modelConflicts === 'merge') {
+            for (let key of keys) {
+                const first = existing.properties[key];
+                const second = duplicateProperties[key];
+                if (!first || !second) {
+                    existing.properties[key] = Object.assign({}, first || second, { required: false });
+                } else if (this.describeSchema(first) !== this.describeSchema(second)) {
+                    const merged = await this.createUnion([first, second], modelMap);
+                    merged.required = !!first.required && !!second.required;
+                    existing.properties[key] = merged;
+                }
+            }
+        }
+        return existing;
+    }
+
+    /** Describes the structure of a schema to compare it with another schema, e.g. "array of NodeReference". */
+    private describeSchema(schema: PropertyDefinition): string {
+        switch (schema.type) {
+            case 'array':
+                return 'array of ' + this.describeSchema(schema.items);
+            case 'object':
+                return schema.id || schema.$ref || `{ ${Object.keys(schema.properties || {}).sort().join(', ')} }`;
+            case 'union':
+                return schema.variants.map(variant => this.describeSchema(variant)).join(' | ');
+            case 'intersection':
+                return schema.members.map(member => this.describeSchema(member)).join(' & ');
             default:
-                return unhandledCase(schema, 'type');
+                return schema.enum ? schema.enum.map(value => JSON.stringify(value)).join(' | ') : schema.type;
+        }
+    }
+
+    /** Normalizes a JSON schema composed via `allOf`, `oneOf` or `anyOf`. */
+    protected async normalizeComposedSchema(schema: any, modelMap: ModelMap): Promise<PropertyDefinition> {
+        const normalizeAll = async (schemas: any[]) => {
+            const normalized: PropertyDefinition[] = [];
+            for (let part of schemas) {
+                const typed = !part.type && part.$ref ? Object.assign({ type: 'object' }, part) : part;
+                normalized.push(await this.normalizeSchema(typed, modelMap));
+            }
+            return normalized;
+        };
+
+        let result: PropertyDefinition;
+        if (schema.allOf) {
+            const parts = await normalizeAll(schema.allOf);
+            if (schema.properties) {
+                parts.push(await this.normalizeSchema({ type: 'object', properties: schema.properties } as ObjectProperty, modelMap));
+            }
+            result = await this.combineAllOf(parts, modelMap);
+            if (result.type === 'object' && schema.id) {
+                result.id = schema.id;
+                modelMap[schema.id] = result;
+            }
+        } else {
+            const allVariants: any[] = schema.oneOf || schema.anyOf;
+            const variants = await normalizeAll(allVariants.filter(variant => variant.type !== 'null'));
+            const discriminator = schema.discriminator && (schema.discriminator.propertyName || schema.discriminator);
+            result = await this.createUnion(variants, modelMap, typeof discriminator === 'string' ? discriminator : undefined);
+            if (variants.length < allVariants.length) {
+                result.nullable = true;
+            }
+        }
+
+        if (schema.description) {
+            result.description = schema.description;
+        }
+        if (schema.nullable) {
+            result.nullable = true;
+        }
+        return result;
+    }
+
+    /** Normalizes a JSON schema with multiple types, e.g. `"type": ["string", "null"]`. */
+    protected async normalizeTypeArray(schema: any, modelMap: ModelMap): Promise<PropertyDefinition> {
+        const types: string[] = schema.type.filter((type: string) => type !== 'null');
+        const nullable = types.length < schema.type.length || !!schema.nullable;
+        if (types.length <= 1) {
+            const singleType = Object.assign({}, schema, { type: types[0] || 'any' }, nullable ? { nullable } : {});
+            return this.normalizeSchema(singleType, modelMap);
+        }
+
+        const variants: PropertyDefinition[] = [];
+        for (let type of types) {
+            // Keywords like "items" or "maxLength" apply to the variant of their type
+            const variant = Object.assign({}, schema, { type });
+            delete variant.description;
+            delete variant.nullable;
+            variants.push(await this.normalizeSchema(variant, modelMap));
+        }
+        const result = await this.createUnion(variants, modelMap);
+        if (schema.description) {
+            result.description = schema.description;
+        }
+        if (nullable) {
+            result.nullable = true;
+        }
+        return result;
+    }
+
+    /**
+     * Combines the parts of an `allOf` schema. When all parts are objects, they are merged into one object
+     * which extends the referenced models. Otherwise the parts are combined as intersection.
+     */
+    protected async combineAllOf(parts: PropertyDefinition[], models: ModelMap): Promise<PropertyDefinition> {
+        if (parts.length === 1) {
+            return Object.assign({}, parts[0]);
+        }
+
+        const resolvedParts: PropertyDefinition[] = [];
+        for (let part of parts) {
+            resolvedParts.push(await this.resolveReference(part, models));
+        }
+        if (!resolvedParts.every(part => part.type === 'object')) {
+            return { type: 'intersection', members: parts };
+        }
+
+        const result = { type: 'object', properties: {} } as ObjectProperty;
+        const parentIds: string[] = [];
+        parts.forEach((part, index) => {
+            const resolved = resolvedParts[index] as ObjectProperty;
+            const parentId = part.type === 'object' ? part.$ref || part.id : undefined;
+            if (parentId) {
+                parentIds.push(parentId);
+            }
+            Object.assign(result.properties, resolved.properties);
+            if (resolved.additionalProperties) {
+                result.additionalProperties = resolved.additionalProperties;
+            }
+        });
+        if (parentIds.length) {
+            result.extends = parentIds;
+        }
+        return result;
+    }
+
+    /**
+     * Creates a union of the variants of a `oneOf` or `anyOf` schema.
+     * Without an explicit discriminator, a property which all variants declare with a distinct single
+     * enum value (e.g. `type: { enum: ["string"] }`) is detected as discriminator.
+     *
+     * @param discriminatorValues The discriminator value of each variant, e.g. from an OpenAPI discriminator mapping.
+     */
+    protected async createUnion(variants: PropertyDefinition[], models: ModelMap, discriminator?: string,
+            discriminatorValues?: Array<string | undefined>): Promise<PropertyDefinition> {
+        if (!variants.length) {
+            return { type: 'any' };
+        } else if (variants.length === 1) {
+            return Object.assign({}, variants[0]);
+        }
+
+        const result: UnionProperty = { type: 'union', variants };
+        const resolvedVariants: PropertyDefinition[] = [];
+        for (let variant of variants) {
+            resolvedVariants.push(await this.resolveReference(variant, models));
+        }
+
+        discriminator = discriminator || this.findDiscriminator(resolvedVariants);
+        if (discriminator) {
+            result.discriminator = discriminator;
+
+            // Values are only needed for variants which do not declare their discriminator value themselves
+            const values = (discriminatorValues || []).map((value, index) =>
+                this.getDiscriminatorValue(resolvedVariants[index], discriminator!) === undefined ? value : undefined);
+            if (values.some(value => value !== undefined)) {
+                result.discriminatorValues = values;
+            }
+        }
+        return result;
+    }
+
+    /** Finds a property which all variants of a union declare with a distinct single enum value. */
+    protected findDiscriminator(variants: PropertyDefinition[]): string | undefined {
+        const first = variants[0];
+        if (!variants.every(variant => variant.type === 'object') || first.type !== 'object') {
+            return undefined;
+        }
+
+        return Object.keys(first.properties || {}).filter(key => {
+            const values = variants.map(variant => this.getDiscriminatorValue(variant, key));
+            return values.every((value, index) => value !== undefined && values.indexOf(value) === index);
+        })[0];
+    }
+
+    /** Returns the value of a property which an object declares as enum with a single value. */
+    private getDiscriminatorValue(schema: PropertyDefinition, key: string): string | undefined {
+        const property = schema.type === 'object' ? (schema.properties || {})[key] as PrimitiveProperty : undefined;
+        return property && Array.isArray(property.enum) && property.enum.length === 1
+            ? String(property.enum[0])
+            : undefined;
+    }
+
+    /** Marks object models which reference themselves directly or via other models, e.g. node trees or breadcrumbs. */
+    protected markRecursiveModels(models: ModelMap): void {
+        const resolve = (schema: PropertyDefinition) =>
+            schema.type === 'object' && schema.$ref && models[schema.$ref] ? models[schema.$ref] : schema;
+
+        const getChildren = (schema: PropertyDefinition): PropertyDefinition[] => {
+            switch (schema.type) {
+                case 'array':
+                    return [schema.items];
+                case 'object':
+                    const properties = Object.keys(schema.properties || {}).map(key => schema.properties[key]);
+                    return schema.additionalProperties ? properties.concat(schema.additionalProperties) : properties;
+                case 'union':
+                    return schema.variants;
+                case 'intersection':
+                    return schema.members;
+                default:
+                    return [];
+            }
+        };
+
+        for (let name of Object.keys(models)) {
+            const model = models[name];
+            if (model.type !== 'object') {
+                continue;
+            }
+
+            const visited: PropertyDefinition[] = [];
+            const pending = getChildren(model).map(resolve);
+            while (pending.length) {
+                const schema = pending.pop()!;
+                if (schema === model) {
+                    model.recursive = true;
+                    break;
+                } else if (schema && visited.indexOf(schema) < 0) {
+                    visited.push(schema);
+                    pending.push(...getChildren(schema).map(resolve));
+                }
+            }
+        }
+    }
+
+    /**
+     * Finds sets of at least three properties which multiple object models have in common,
+     * e.g. `uuid`, `creator`, `created`, ... of Mesh element responses, and moves them to base models.
+     * Properties are compared by their structure and `required` flag, the models which extend
+     * a base model use its properties, so the renderer only outputs their own properties.
+     */
+    protected extractBaseModels(models: ModelMap): void {
+        const minProperties = 3;
+        const shortName = (id: string) => id.replace(/^urn:jsonschema:([a-z]+:)*/, '');
+
+        while (true) {
+            // Every property is identified by its key and structure, e.g. ["uuid",true,"string"]
+            const signatures: { [id: string]: string[] } = {};
+            for (let id of Object.keys(models)) {
+                const model = models[id];
+                if (model.type === 'object' && !model.extends && model.properties) {
+                    signatures[id] = Object.keys(model.properties).map(key =>
+                        JSON.stringify([key, !!model.properties[key].required, this.describeSchema(model.properties[key])]));
+                }
+            }
+
+            // Candidates are the common properties of every pair of models
+            const ids = Object.keys(signatures);
+            const candidates: { [joined: string]: string[] } = {};
+            for (let first = 0; first < ids.length; first++) {
+                for (let second = first + 1; second < ids.length; second++) {
+                    const common = signatures[ids[first]].filter(signature => signatures[ids[second]].indexOf(signature) >= 0);
+                    if (common.length >= minProperties) {
+                        candidates[common.sort().join('\n')] = common;
+                    }
+                }
+            }
+
+            // The base model which saves the most repeated properties wins
+            let best: { properties: string[], users: string[] } | undefined;
+            for (let joined of Object.keys(candidates)) {
+                const properties = candidates[joined];
+                const users = ids.filter(id => properties.every(signature => signatures[id].indexOf(signature) >= 0));
+                const score = properties.length * (users.length - 1);
+                const bestScore = best ? best.properties.length * (best.users.length - 1) : 0;
+                if (score > bestScore || (best && score === bestScore && properties.length > best.properties.length)) {
+                    best = { properties, users };
+                }
+            }
+            if (!best) {
+                return;
+            }
+
+            const nameWords = best.users.map(id => shortName(id).match(/[A-Z]+(?![a-z])|[A-Z]?[a-z0-9]+/g) || []);
+            const suffixWords: string[] = [];
+            for (let index = 1; nameWords.every(words => words.length >= index); index++) {
+                const word = nameWords[0][nameWords[0].length - index];
+                if (!nameWords.every(words => words[words.length - index] === word)) {
+                    break;
+                }
+                suffixWords.unshift(word);
+            }
+            const baseName = 'Base' + (suffixWords.join('') || 'Model');
+            let baseId = baseName;
+            for (let counter = 2; baseId in models; counter++) {
+                baseId = baseName + counter;
+            }
+
+            const firstUser = models[best.users[0]] as ObjectProperty;
+            const keys = best.properties.map(signature => JSON.parse(signature)[0] as string);
+            const baseModel: ObjectProperty = { type: 'object', id: baseId, properties: {} };
+            for (let key of Object.keys(firstUser.properties).filter(key => keys.indexOf(key) >= 0)) {
+                baseModel.properties[key] = firstUser.properties[key];
+            }
+            models[baseId] = baseModel;
+
+            for (let id of best.users) {
+                const model = models[id] as ObjectProperty;
+                model.extends = [baseId];
+                for (let key of keys) {
+                    model.properties[key] = baseModel.properties[key];
+                }
+            }
+        }
+    }
+
+    /** Returns the model a `$ref` points to, or the passed property for all other properties. */
+    protected async resolveReference(property: PropertyDefinition, models: ModelMap): Promise<PropertyDefinition> {
+        if (property.type === 'object' && property.$ref && models[property.$ref]) {
+            return models[property.$ref];
+        }
+        return property;
+    }
+
+    /**
+     * Ensures numeric constraints (minimum, maxLength, ...) are numbers.
+     * Hand-written RAML sometimes contains them as strings, e.g. `"maxLength": "255"`.
+     */
+    protected normalizeConstraints(schema: PropertyDefinition): void {
+        const constraints = schema as { [key in NumericConstraint]?: number | string };
+        for (let key of numericConstraints) {
+            const value = constraints[key];
+            if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+                constraints[key] = Number(value);
+            } else if (value != null && typeof value !== 'number') {
+                delete constraints[key];
+            }
         }
     }
 }
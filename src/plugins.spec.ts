@@ -0,0 +1,136 @@
+import { expect } from 'chai';
+import { unlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Endpoint, ObjectProperty, ParsedMeshRAML } from './interfaces';
+import { loadPlugin, PluginPipeline } from './plugins';
+
+
+describe('PluginPipeline', () => {
+
+    const createParsed = (): ParsedMeshRAML => ({
+        baseUri: '/api/v2',
+        version: '1.0',
+        endpoints: [
+            { method: 'GET', url: '/users', description: 'Load users', responses: {} },
+            { method: 'GET', url: '/admin/status', description: 'Load the status', responses: {} }
+        ] as Endpoint[],
+        models: {
+            UserResponse: { type: 'object', id: 'UserResponse', properties: {} },
+            InternalResponse: { type: 'object', id: 'InternalResponse', properties: {} }
+        }
+    });
+
+    it('applies the parse hooks of all plugins in order', async () => {
+        const calls: string[] = [];
+        const pipeline = new PluginPipeline([
+            {
+                afterParse: raml => {
+                    calls.push('first afterParse');
+                    return Object.assign({}, raml, { baseUri: '/api/v3' });
+                },
+                transformModel: (model, name) => {
+                    calls.push('first transformModel ' + name);
+                    return name === 'InternalResponse' ? null : undefined;
+                }
+            },
+            {
+                afterParse: raml => {
+                    calls.push('second afterParse ' + raml.baseUri);
+                },
+                transformModel: (model, name) => {
+                    calls.push('second transformModel ' + name);
+                    return Object.assign({}, model, { description: 'A user' });
+                },
+                transformEndpoint: endpoint => endpoint.url.startsWith('/admin') ? null : endpoint
+            }
+        ]);
+
+        const result = await pipeline.transformParsed(createParsed());
+        expect(calls).to.deep.equal([
+            'first afterParse',
+            'second afterParse /api/v3',
+            'first transformModel UserResponse',
+            'second transformModel UserResponse',
+            'first transformModel InternalResponse'
+        ]);
+        expect(result.baseUri).to.equal('/api/v3');
+        expect(Object.keys(result.models)).to.deep.equal(['UserResponse']);
+        expect((result.models['UserResponse'] as ObjectProperty).description).to.equal('A user');
+        expect(result.endpoints.map(endpoint => endpoint.url)).to.deep.equal(['/users']);
+    });
+
+    it('applies the file hooks to every file and the output hook to all files', async () => {
+        const pipeline = new PluginPipeline([
+            {
+                transformFile: (content, fileName) => `// ${fileName}\n${content}`,
+                transformOutput: async files => Object.assign({ 'index.ts': `export * from './models';\n` }, files)
+            },
+            {
+                transformFile: content => content.toUpperCase()
+            }
+        ]);
+
+        const result = await pipeline.transformFiles({ 'models.ts': 'export type Integer = number;\n' });
+        expect(result).to.deep.equal({
+            'index.ts': `export * from './models';\n`,
+            'models.ts': '// MODELS.TS\nEXPORT TYPE INTEGER = NUMBER;\n'
+        });
+    });
+
+    it('keeps files which are emptied by a file hook', async () => {
+        const pipeline = new PluginPipeline([
+            { transformFile: (content, fileName) => fileName === 'empty.ts' ? '' : undefined },
+            { transformFile: content => content.trim() }
+        ]);
+
+        const result = await pipeline.transformFiles({ 'empty.ts': 'export {};\n', 'models.ts': 'export type Integer = number;\n' });
+        expect(result).to.deep.equal({
+            'empty.ts': '',
+            'models.ts': 'export type Integer = number;'
+        });
+    });
+
+    it('reports the plugin and hook of errors thrown by plugins', async () => {
+        const pipeline = new PluginPipeline([
+            { name: 'broken', afterParse: () => { throw new Error('Something went wrong'); } }
+        ]);
+        let error: Error | undefined;
+        try {
+            await pipeline.transformParsed(createParsed());
+        } catch (err) {
+            error = err;
+        }
+        expect(error).to.be.instanceOf(Error);
+        expect(error!.message).to.equal('PluginPipeline: Plugin "broken" failed in afterParse: Something went wrong');
+    });
+
+});
+
+describe('loadPlugin()', () => {
+
+    const pluginFile = join(tmpdir(), `mesh-model-generator-plugin-${process.pid}.js`);
+    afterEach(() => {
+        try {
+            unlinkSync(pluginFile);
+        } catch (ignored) { }
+    });
+
+    it('loads plugin objects and factories exported by a module', () => {
+        writeFileSync(pluginFile, 'module.exports = () => ({ transformFile: content => content.trim() });');
+        const plugin = loadPlugin(pluginFile);
+        expect(plugin.name).to.equal(pluginFile);
+        expect(plugin.transformFile!(' text ', 'models.ts')).to.equal('text');
+    });
+
+    it('throws for modules which do not export a plugin', () => {
+        const moduleName = pluginFile.replace(/\.js$/, '-invalid.js');
+        writeFileSync(moduleName, 'module.exports = 42;');
+        try {
+            expect(() => loadPlugin(moduleName)).to.throw(`Plugin "${moduleName}" does not export a plugin object`);
+        } finally {
+            unlinkSync(moduleName);
+        }
+    });
+
+});
@@ -0,0 +1,146 @@
+import { resolve as resolvePath } from 'path';
+import { Endpoint, ModelMap, ParsedMeshRAML, PropertyDefinition } from './interfaces';
+
+/** Rendered files by their name, e.g. `{ "models.ts": "export interface ..." }` */
+export interface OutputFiles {
+    [fileName: string]: string;
+}
+
+export type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Hooks to customize the generation between parsing and rendering.
+ * All hooks are optional and may be async. Returning nothing keeps the passed value unchanged.
+ *
+ * @example
+ *     const plugin: GeneratorPlugin = {
+ *         name: 'strip-internal',
+ *         transformEndpoint: endpoint => endpoint.url.startsWith('/admin') ? null : endpoint,
+ *         transformFile: content => '// tslint:disable\n' + content
+ *     };
+ */
+export interface GeneratorPlugin {
+    /** Name of the plugin, used in error messages. */
+    name?: string;
+
+    /** Called once with the parse result, before its models and endpoints are transformed. */
+    afterParse?(raml: ParsedMeshRAML): MaybePromise<ParsedMeshRAML | void>;
+
+    /** Called for every model. Return `null` to remove the model from the output. */
+    transformModel?(model: PropertyDefinition, name: string, raml: ParsedMeshRAML): MaybePromise<PropertyDefinition | null | void>;
+
+    /** Called for every endpoint. Return `null` to remove the endpoint from the output. */
+    transformEndpoint?(endpoint: Endpoint, raml: ParsedMeshRAML): MaybePromise<Endpoint | null | void>;
+
+    /** Called for every rendered file with its content. */
+    transformFile?(content: string, fileName: string): MaybePromise<string | void>;
+
+    /** Called once with all rendered files before they are written, can rename, add or remove files. */
+    transformOutput?(files: OutputFiles): MaybePromise<OutputFiles | void>;
+}
+
+/**
+ * Applies the hooks of multiple plugins in the order they were passed.
+ * Errors thrown by a plugin are rethrown with the name of the plugin and the failing hook.
+ */
+export class PluginPipeline {
+
+    constructor(public plugins: GeneratorPlugin[] = []) { }
+
+    /** Applies the `afterParse`, `transformModel` and `transformEndpoint` hooks to a parse result. */
+    async transformParsed(raml: ParsedMeshRAML): Promise<ParsedMeshRAML> {
+        let result = raml;
+        for (let plugin of this.plugins) {
+            if (plugin.afterParse) {
+                result = await this.callHook(plugin, 'afterParse', () => plugin.afterParse!(result)) || result;
+            }
+        }
+
+        const models: ModelMap = {};
+        for (let name of Object.keys(result.models || {})) {
+            let model: PropertyDefinition | null = result.models[name];
+            for (let plugin of this.plugins) {
+                if (model && plugin.transformModel) {
+                    const current: PropertyDefinition = model;
+                    const transformed: PropertyDefinition | null | void =
+                        await this.callHook(plugin, 'transformModel', () => plugin.transformModel!(current, name, result));
+                    model = transformed === undefined ? current : transformed as PropertyDefinition | null;
+                }
+            }
+            if (model) {
+                models[name] = model;
+            }
+        }
+
+        const endpoints: Endpoint[] = [];
+        for (let endpoint of result.endpoints || []) {
+            let transformedEndpoint: Endpoint | null = endpoint;
+            for (let plugin of this.plugins) {
+                if (transformedEndpoint && plugin.transformEndpoint) {
+                    const current: Endpoint = transformedEndpoint;
+                    const transformed: Endpoint | null | void =
+                        await this.callHook(plugin, 'transformEndpoint', () => plugin.transformEndpoint!(current, result));
+                    transformedEndpoint = transformed === undefined ? current : transformed as Endpoint | null;
+                }
+            }
+            if (transformedEndpoint) {
+                endpoints.push(transformedEndpoint);
+            }
+        }
+
+        return { ...result, models, endpoints };
+    }
+
+    /** Applies the `transformFile` hooks to every rendered file and the `transformOutput` hooks to all files. */
+    async transformFiles(files: OutputFiles): Promise<OutputFiles> {
+        let result: OutputFiles = {};
+        for (let fileName of Object.keys(files)) {
+            let content = files[fileName];
+            for (let plugin of this.plugins) {
+                if (plugin.transformFile) {
+                    const current = content;
+                    const transformed = await this.callHook(plugin, 'transformFile', () => plugin.transformFile!(current, fileName));
+                    content = transformed === undefined ? current : transformed as string;
+                }
+            }
+            result[fileName] = content;
+        }
+
+        for (let plugin of this.plugins) {
+            if (plugin.transformOutput) {
+                const current = result;
+                result = await this.callHook(plugin, 'transformOutput', () => plugin.transformOutput!(current)) || current;
+            }
+        }
+        return result;
+    }
+
+    protected async callHook<T>(plugin: GeneratorPlugin, hook: keyof GeneratorPlugin, call: () => MaybePromise<T>): Promise<T> {
+        try {
+            return await call();
+        } catch (error) {
+            const pluginName = plugin.name || `#${this.plugins.indexOf(plugin) + 1}`;
+            throw new Error(`${this.constructor.name}: Plugin "${pluginName}" failed in ${hook}: ${error && error.message || error}`);
+        }
+    }
+}
+
+/**
+ * Loads a plugin from a module, e.g. for the `--plugin` option of the CLI.
+ * The module can export the plugin object (as `module.exports` or `default`) or a function which returns it.
+ * Relative paths are resolved from the current working directory, other names are loaded from `node_modules`.
+ */
+export function loadPlugin(moduleName: string): GeneratorPlugin {
+    const modulePath = /^\.{0,2}\//.test(moduleName) ? resolvePath(moduleName) : moduleName;
+    const exported = require(modulePath);
+    let plugin = exported && exported.default || exported;
+    if (typeof plugin === 'function') {
+        plugin = plugin();
+    }
+
+    if (!plugin || typeof plugin !== 'object') {
+        throw new Error(`Plugin "${moduleName}" does not export a plugin object`);
+    }
+    plugin.name = plugin.name || moduleName;
+    return plugin;
+}
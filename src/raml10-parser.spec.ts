@@ -0,0 +1,555 @@
+import { expect } from 'chai';
+import { posix } from 'path';
+import { Raml10Parser } from './raml10-parser';
+import { ArrayProperty, ObjectProperty } from './interfaces';
+import { unindent } from './utils/unindent';
+
+
+describe('Raml10Parser', () => {
+
+    let parser: Raml10Parser;
+    beforeEach(() => {
+        parser = new Raml10Parser();
+    });
+
+    const exampleRaml = unindent `
+        #%RAML 1.0
+        title: Gentics Mesh REST API
+        version: 0.30.0
+        baseUri: http://localhost:8080/api/v1
+        mediaType: application/json
+        types:
+          Uuid:
+            type: string
+            pattern: ^[0-9a-f]{32}$
+          UserReference:
+            properties:
+              uuid: Uuid
+              firstName?: string
+          UserResponse:
+            type: object
+            description: Response model of a user
+            properties:
+              uuid: Uuid
+              username:
+                type: string
+                minLength: 3
+              enabled: boolean
+              creator: UserReference
+              groups: GroupReference[]
+              permissions:
+                type: array
+                items:
+                  enum: [read, update]
+          GroupReference:
+            properties:
+              name: string
+              uuid:
+                type: Uuid
+                required: false
+        /users:
+          get:
+            description: Load multiple users.
+            queryParameters:
+              page:
+                type: integer
+                required: false
+                description: Number of the page.
+            responses:
+              200:
+                body:
+                  application/json:
+                    type: UserResponse[]
+          /{userUuid}:
+            uriParameters:
+              userUuid:
+                type: Uuid
+                description: Uuid of the user
+                example: dcfce0e6d8cb4af4bfb6be1d1dfae4e9
+            get:
+              description: Read the user with the given uuid.
+              responses:
+                200:
+                  body:
+                    type: UserResponse
+                    example:
+                      uuid: dcfce0e6d8cb4af4bfb6be1d1dfae4e9
+                      username: admin
+            /groups:
+              get:
+                responses:
+                  200:
+                    body: GroupReference[]
+    `;
+
+    it('copies baseUri and version from the document', async () => {
+        const result = await parser.parseRAML(exampleRaml);
+        expect(result.baseUri).to.equal('http://localhost:8080/api/v1');
+        expect(result.version).to.equal('0.30.0');
+    });
+
+    it('stores all declared object types in the model hash', async () => {
+        const result = await parser.parseRAML(exampleRaml);
+        expect(result.models).to.have.all.keys('UserReference', 'UserResponse', 'GroupReference');
+    });
+
+    it('converts properties of object types', async () => {
+        const result = await parser.parseRAML(exampleRaml);
+        const userResponse = result.models['UserResponse'] as ObjectProperty;
+        expect(userResponse.id).to.equal('UserResponse');
+        expect(userResponse.description).to.equal('Response model of a user');
+        expect(userResponse.properties.uuid).to.deep.equal({
+            type: 'string',
+            pattern: '^[0-9a-f]{32}$',
+            required: true
+        });
+        expect(userResponse.properties.username).to.deep.equal({
+            type: 'string',
+            minLength: 3,
+            required: true
+        });
+        expect(userResponse.properties.enabled).to.deep.equal({
+            type: 'boolean',
+            required: true
+        });
+        expect(userResponse.properties.permissions).to.deep.equal({
+            type: 'array',
+            items: {
+                type: 'string',
+                enum: ['read', 'update']
+            },
+            required: true
+        });
+    });
+
+    it('references declared object types via $ref', async () => {
+        const result = await parser.parseRAML(exampleRaml);
+        const userResponse = result.models['UserResponse'] as ObjectProperty;
+        expect(userResponse.properties.creator).to.deep.equal({
+            type: 'object',
+            $ref: 'UserReference',
+            required: true
+        });
+        expect(userResponse.properties.groups).to.deep.equal({
+            type: 'array',
+            items: {
+                type: 'object',
+                $ref: 'GroupReference'
+            },
+            required: true
+        });
+    });
+
+    it('marks properties with a question mark or "required: false" as optional', async () => {
+        const result = await parser.parseRAML(exampleRaml);
+        const userReference = result.models['UserReference'] as ObjectProperty;
+        const groupReference = result.models['GroupReference'] as ObjectProperty;
+        expect(userReference.properties.firstName.required).to.equal(false);
+        expect(groupReference.properties.uuid.required).to.equal(false);
+        expect(groupReference.properties.name.required).to.equal(true);
+    });
+
+    it('finds endpoints of nested resources and combines their uri parameters', async () => {
+        const result = await parser.parseRAML(exampleRaml);
+        expect(result.endpoints.map(e => e.method + ' ' + e.url)).to.deep.equal([
+            'GET /users',
+            'GET /users/{userUuid}',
+            'GET /users/{userUuid}/groups'
+        ]);
+        expect(result.endpoints[2].urlParameters).to.deep.equal({
+            userUuid: {
+                description: 'Uuid of the user',
+                example: 'dcfce0e6d8cb4af4bfb6be1d1dfae4e9',
+                repeat: false,
+                required: true,
+                type: 'string'
+            }
+        });
+    });
+
+    it('converts query parameters', async () => {
+        const result = await parser.parseRAML(exampleRaml);
+        expect(result.endpoints[0].queryParameters).to.deep.equal({
+            page: {
+                description: 'Number of the page.',
+                repeat: false,
+                required: false,
+                type: 'number'
+            }
+        });
+    });
+
+    it('converts response bodies with and without media type', async () => {
+        const result = await parser.parseRAML(exampleRaml);
+        const listSchema = result.endpoints[0].responses[200].responseBodySchema as ArrayProperty;
+        expect(listSchema.type).to.equal('array');
+        expect(listSchema.items).to.deep.equal({ type: 'object', $ref: 'UserResponse' });
+
+        const singleResponse = result.endpoints[1].responses[200];
+        expect(singleResponse.responseBodySchema).to.deep.equal({ type: 'object', $ref: 'UserResponse' });
+        expect(singleResponse.responseBodyExample).to.deep.equal({
+            uuid: 'dcfce0e6d8cb4af4bfb6be1d1dfae4e9',
+            username: 'admin'
+        });
+
+        const groupSchema = result.endpoints[2].responses[200].responseBodySchema as ArrayProperty;
+        expect(groupSchema.items).to.deep.equal({ type: 'object', $ref: 'GroupReference' });
+    });
+
+    it('converts request and response headers', async () => {
+        const result = await parser.parseRAML({
+            '/users': {
+                get: {
+                    headers: {
+                        'If-None-Match?': 'string'
+                    },
+                    responses: {
+                        200: {
+                            headers: {
+                                ETag: {
+                                    type: 'string',
+                                    description: 'Version of the response'
+                                }
+                            }
+                        }
+                    }
+                }
+            }
+        });
+        expect(result.endpoints[0].headers).to.deep.equal({
+            'If-None-Match': { description: '', repeat: false, required: false, type: 'string' }
+        });
+        expect(result.endpoints[0].responses[200].headers).to.deep.equal({
+            ETag: { description: 'Version of the response', repeat: false, required: true, type: 'string' }
+        });
+    });
+
+    it('merges the properties of inherited types', async () => {
+        const result = await parser.parseRAML({
+            types: {
+                Base: {
+                    properties: {
+                        uuid: 'string'
+                    }
+                },
+                Extended: {
+                    type: 'Base',
+                    properties: {
+                        name: 'string'
+                    }
+                }
+            }
+        });
+        expect((result.models['Extended'] as ObjectProperty).properties).to.deep.equal({
+            uuid: { type: 'string', required: true },
+            name: { type: 'string', required: true }
+        });
+        expect((result.models['Extended'] as ObjectProperty).extends).to.deep.equal(['Base']);
+    });
+
+    it('converts union types and uses the discriminator of their parent type', async () => {
+        const result = await parser.parseRAML({
+            types: {
+                Field: {
+                    type: 'object',
+                    discriminator: 'kind',
+                    properties: { kind: 'string' }
+                },
+                StringField: {
+                    type: 'Field',
+                    discriminatorValue: 'string',
+                    properties: { value: 'string' }
+                },
+                NumberField: {
+                    type: 'Field',
+                    properties: { value: 'number' }
+                },
+                Node: {
+                    properties: {
+                        field: 'StringField | NumberField',
+                        'name?': 'string | nil'
+                    }
+                }
+            }
+        });
+        const node = result.models['Node'] as ObjectProperty;
+        expect(node.properties.field).to.deep.equal({
+            type: 'union',
+            variants: [
+                { type: 'object', $ref: 'StringField' },
+                { type: 'object', $ref: 'NumberField' }
+            ],
+            discriminator: 'kind',
+            discriminatorValues: ['string', 'NumberField'],
+            required: true
+        });
+        expect(node.properties.name).to.deep.equal({ type: 'string', nullable: true, required: false });
+    });
+
+    it('uses types declared in libraries', async () => {
+        const result = await parser.parseRAML({
+            uses: {
+                mesh: {
+                    types: {
+                        Tag: {
+                            properties: {
+                                name: 'string',
+                                family: 'TagFamily'
+                            }
+                        },
+                        TagFamily: {
+                            properties: {
+                                name: 'string'
+                            }
+                        }
+                    }
+                }
+            },
+            '/tags': {
+                get: {
+                    responses: {
+                        200: {
+                            body: {
+                                'application/json': {
+                                    type: 'mesh.Tag'
+                                }
+                            }
+                        }
+                    }
+                }
+            }
+        });
+        expect(result.models).to.have.all.keys('Tag', 'TagFamily');
+        expect((result.models['Tag'] as ObjectProperty).properties.family).to.deep.equal({
+            type: 'object',
+            $ref: 'TagFamily',
+            required: true
+        });
+        expect(result.endpoints[0].responses[200].responseBodySchema).to.deep.equal({
+            type: 'object',
+            $ref: 'Tag'
+        });
+    });
+
+    it('loads libraries referenced by their path', async () => {
+        const files: { [path: string]: string } = {
+            'api/mesh.raml': '#%RAML 1.0\nuses:\n  mesh: libraries/mesh.raml',
+            'api/libraries/mesh.raml': '#%RAML 1.0 Library\ntypes:\n  Tag: !include ../types/tag.raml',
+            'api/types/tag.raml': '#%RAML 1.0 DataType\nproperties:\n  name: string'
+        };
+        parser = new Raml10Parser({
+            fileResolver: {
+                resolvePath: (path, referencedFrom) => referencedFrom
+                    ? posix.join(posix.dirname(referencedFrom), path)
+                    : path,
+                readFile: async path => files[path]
+            }
+        });
+
+        const result = await parser.parseRAMLFile('api/mesh.raml');
+        expect(result.models).to.deep.equal({
+            Tag: {
+                type: 'object',
+                id: 'Tag',
+                properties: {
+                    name: { type: 'string', required: true }
+                }
+            }
+        });
+    });
+
+    it('converts multipart/form-data bodies to form parameters', async () => {
+        const result = await parser.parseRAML({
+            '/upload': {
+                post: {
+                    body: {
+                        'multipart/form-data': {
+                            properties: {
+                                binary: {
+                                    type: 'file',
+                                    description: 'A file to upload'
+                                },
+                                'language?': 'string'
+                            }
+                        }
+                    }
+                }
+            }
+        });
+        expect(result.endpoints[0].requestBody).to.deep.equal({
+            mimeType: 'multipart/form-data',
+            schema: {
+                type: 'object',
+                required: true,
+                properties: {
+                    binary: {
+                        description: 'A file to upload',
+                        repeat: false,
+                        required: true,
+                        type: 'file'
+                    },
+                    language: {
+                        description: '',
+                        repeat: false,
+                        required: false,
+                        type: 'string'
+                    }
+                }
+            }
+        });
+    });
+
+    it('converts bodies of other media types', async () => {
+        const result = await parser.parseRAML({
+            '/nodes/{nodeUuid}/binary': {
+                get: {
+                    responses: {
+                        200: {
+                            body: {
+                                'application/octet-stream': {
+                                    type: 'file'
+                                }
+                            }
+                        }
+                    }
+                }
+            }
+        });
+        const response = result.endpoints[0].responses[200];
+        expect(response.responseBodySchema).to.equal(undefined);
+        expect(response.bodies).to.have.all.keys('application/octet-stream');
+        expect(response.bodies!['application/octet-stream'].mimeType).to.equal('application/octet-stream');
+    });
+
+    it('applies traits and resource types declared in libraries', async () => {
+        const result = await parser.parseRAML({
+            uses: {
+                lib: {
+                    traits: {
+                        paged: {
+                            queryParameters: {
+                                'perPage?': {
+                                    type: 'integer',
+                                    description: 'At most <<maxPerPage>>'
+                                }
+                            }
+                        }
+                    },
+                    resourceTypes: {
+                        item: {
+                            get: {
+                                responses: {
+                                    200: {
+                                        body: {
+                                            'application/json': { type: '<<resourcePathName | !singularize | !uppercamelcase>>' }
+                                        }
+                                    }
+                                }
+                            }
+                        }
+                    }
+                }
+            },
+            types: {
+                User: {
+                    type: 'object',
+                    properties: { name: 'string' }
+                }
+            },
+            '/users': {
+                get: {
+                    is: [{ 'lib.paged': { maxPerPage: 100 } }]
+                },
+                '/{userUuid}': {
+                    type: 'lib.item'
+                }
+            }
+        });
+        expect(result.endpoints[0].queryParameters).to.deep.equal({
+            perPage: { description: 'At most 100', repeat: false, required: false, type: 'number' }
+        });
+        expect(result.endpoints[1].responses[200].responseBodySchema).to.deep.equal({ type: 'object', $ref: 'User' });
+    });
+
+    it('reports non-object types which contain themselves', async () => {
+        const result = await parser.parseRAML({
+            types: {
+                Tree: 'Tree[]',
+                Node: {
+                    properties: {
+                        tree: 'Tree',
+                        'parent?': 'Node'
+                    }
+                }
+            }
+        });
+        const node = result.models['Node'] as ObjectProperty;
+        expect(node.properties.tree).to.deep.equal({ type: 'array', items: { type: 'any' }, required: true });
+        expect(node.recursive).to.equal(true);
+        expect(result.diagnostics!.map(d => d.code + ': ' + d.message)).to.deep.equal([
+            'circular-reference: Type "Tree" contains itself without an object type in between'
+        ]);
+    });
+
+    it('renders "type: object" without properties as a hash', async () => {
+        const result = await parser.parseRAML({
+            types: {
+                Container: {
+                    properties: {
+                        fields: 'object'
+                    }
+                }
+            }
+        });
+        expect((result.models['Container'] as ObjectProperty).properties.fields).to.deep.equal({
+            type: 'object',
+            properties: {},
+            additionalProperties: { type: 'any' },
+            required: true
+        });
+    });
+
+    it('reports references to unknown types and types them as "any"', async () => {
+        const result = await parser.parseRAML({ types: { User: { properties: { group: 'Group' } } } });
+        expect((result.models['User'] as ObjectProperty).properties.group).to.deep.equal({
+            type: 'any',
+            required: true
+        });
+        expect(result.diagnostics).to.deep.equal([{
+            severity: 'error',
+            code: 'unknown-type',
+            message: 'Unknown type "Group"',
+            path: ['types', 'User']
+        }]);
+    });
+
+    it('reports the source position of the type declaration', async () => {
+        const result = await parser.parseRAML(unindent `
+            #%RAML 1.0
+            types:
+              User:
+                properties:
+                  group: Group
+        `);
+        expect(result.diagnostics![0].location).to.deep.equal({ file: '', line: 3, column: 3 });
+    });
+
+    it('reports invalid type expressions', async () => {
+        const result = await parser.parseRAML({ types: { User: { properties: { groups: 'string |' } } } });
+        expect(result.diagnostics!.map(d => d.code)).to.deep.equal(['invalid-type-expression']);
+    });
+
+    it('throws for references to unknown types in strict mode', async () => {
+        parser = new Raml10Parser({ strict: true });
+        let error: Error | undefined;
+        try {
+            await parser.parseRAML({ types: { User: { properties: { group: 'Group' } } } });
+        } catch (err) {
+            error = err;
+        }
+        expect(error).to.be.instanceOf(Error);
+        expect(error!.message).to.equal('Raml10Parser: Unknown type "Group" (at types > User)');
+    });
+
+
+});
@@ -0,0 +1,699 @@
+import { BodyMap, Endpoint, FormPartMap, ModelMap, ObjectProperty, Parameter, PrimitiveProperty, PropertyDefinition,
+    QueryParameterMap, RequestBody, Response, ResponseMap, UrlParameterMap } from './interfaces';
+import { JsonSource, MeshRamlParser } from './parser';
+
+
+/** Facets of RAML 1.0 type declarations which are copied to the parsed model. */
+const copiedFacets = ['enum', 'format', 'pattern', 'minimum', 'maximum', 'minLength', 'maxLength', 'minItems', 'maxItems'];
+
+/** Built-in RAML 1.0 scalar types and their representation in the parsed model. */
+const builtinTypes: { [name: string]: PrimitiveProperty } = {
+    'any': { type: 'any' },
+    'boolean': { type: 'boolean' },
+    'date-only': { type: 'string', format: 'date' },
+    'datetime': { type: 'string', format: 'date-time' },
+    'datetime-only': { type: 'string', format: 'date-time' },
+    'file': { type: 'string', format: 'binary' },
+    'integer': { type: 'integer' },
+    'nil': { type: 'any' },
+    'number': { type: 'number' },
+    'string': { type: 'string' },
+    'time-only': { type: 'string', format: 'time' }
+};
+
+/** A type declaration in the `types` of a RAML 1.0 document or library. */
+interface TypeDeclarationInfo {
+    declaration: any;
+    /** Prefix of the library the type is declared in, e.g. "lib." */
+    scope: string;
+    /** Node and key of the declaration in the document, used to locate problems in it. */
+    source?: JsonSource;
+}
+
+interface TypeDeclarationMap {
+    [qualifiedName: string]: TypeDeclarationInfo;
+}
+
+/** Parsed type expression like "User[]" or "(Cat | Dog)[]" */
+type TypeExpression =
+    { kind: 'name', name: string } |
+    { kind: 'array', items: TypeExpression } |
+    { kind: 'union', members: TypeExpression[] };
+
+/**
+ * Parses RAML 1.0 documents for request and response models.
+ * Type declarations (`types`, `uses` libraries, type references and inline declarations)
+ * are converted to the same {@link ParsedMeshRAML} structure as the RAML 0.8 parser outputs.
+ */
+export class Raml10Parser extends MeshRamlParser {
+
+    /** The type declarations of the document that is currently parsed. */
+    protected typeDeclarations: TypeDeclarationMap = {};
+
+    /** The model ids of the declared object types, by qualified name (e.g. "lib.User" => "User"). */
+    protected modelIds: { [qualifiedName: string]: string } = {};
+
+    /** The default media type of request and response bodies */
+    protected defaultMediaType = 'application/json';
+
+    protected async findModelsAndEndpoints(apiRaml: any) {
+        const models: ModelMap = {};
+
+        this.typeDeclarations = await this.collectTypeDeclarations(apiRaml, '');
+        this.modelIds = {};
+        this.defaultMediaType = Array.isArray(apiRaml.mediaType)
+            ? apiRaml.mediaType[0]
+            : (apiRaml.mediaType || 'application/json');
+
+        for (let qualifiedName of Object.keys(this.typeDeclarations)) {
+            await this.convertTypeExpression({ kind: 'name', name: qualifiedName }, '', models);
+        }
+
+        const endpoints = await this.findEndpoints(apiRaml, models);
+
+        return { endpoints, models };
+    }
+
+    /** Collects the type declarations of a document and the libraries it uses. */
+    protected async collectTypeDeclarations(document: any, scope: string): Promise<TypeDeclarationMap> {
+        const result: TypeDeclarationMap = {};
+
+        // "schemas" is deprecated in RAML 1.0, but still allowed as a synonym of "types"
+        for (let key of ['schemas', 'types']) {
+            // RAML 0.8 style declarations are an array of single-key objects
+            const declarations = Array.isArray(document[key])
+                ? Object.assign({}, ...document[key])
+                : document[key] || {};
+
+            for (let name of Object.keys(declarations)) {
+                result[scope + name] = { declaration: declarations[name], scope, source: { node: declarations, key: name } };
+            }
+        }
+
+        const libraries = document.uses || {};
+        for (let namespace of Object.keys(libraries)) {
+            const library = typeof libraries[namespace] === 'string'
+                ? await this.loadLibrary(libraries[namespace])
+                : libraries[namespace];
+            Object.assign(result, await this.collectTypeDeclarations(library || {}, scope + namespace + '.'));
+        }
+
+        return result;
+    }
+
+    /**
+     * Loads a library referenced in `uses` by its path.
+     * Libraries of RAML strings and files are loaded when parsing the YAML,
+     * this loads the libraries of already-parsed RAML objects relative to the working directory.
+     */
+    protected async loadLibrary(path: string): Promise<any> {
+        return this.loadIncludedFile(path, '', []);
+    }
+
+    /** Collects the traits or resource types of a document and the libraries it uses, e.g. "lib.paged". */
+    protected async collectTemplateDeclarations(document: any, key: 'traits' | 'resourceTypes', scope = ''): Promise<{ [name: string]: any }> {
+        const result: { [name: string]: any } = {};
+
+        const declarations = await super.collectTemplateDeclarations(document, key);
+        for (let name of Object.keys(declarations)) {
+            result[scope + name] = declarations[name];
+        }
+
+        const libraries = document.uses || {};
+        for (let namespace of Object.keys(libraries)) {
+            const library = typeof libraries[namespace] === 'string'
+                ? await this.loadLibrary(libraries[namespace])
+                : libraries[namespace];
+            Object.assign(result, await this.collectTemplateDeclarations(library || {}, key, scope + namespace + '.'));
+        }
+
+        return result;
+    }
+
+    protected parseUriParameters(uriParameters: any): UrlParameterMap {
+        return this.convertParameters(uriParameters);
+    }
+
+    async traverseRequest(methodRaml: any, methodName: string, url: string, urlParams: UrlParameterMap | undefined, models: ModelMap): Promise<Endpoint> {
+        const parsedRequest: Endpoint = {
+            url,
+            method: methodName.toUpperCase() as any,
+            urlParameters: urlParams,
+            queryParameters: methodRaml.queryParameters ? this.convertParameters(methodRaml.queryParameters) : undefined,
+            description: methodRaml.description,
+            responses: {}
+        };
+        if (methodRaml.headers) {
+            parsedRequest.headers = this.convertParameters(methodRaml.headers);
+        }
+
+        const bodies = this.getBodiesByMediaType(methodRaml.body);
+        const jsonBody = bodies['application/json'];
+        const formBody = bodies['multipart/form-data'];
+
+        if (jsonBody) {
+            parsedRequest.requestBody = await this.convertBody(jsonBody, 'application/json', models);
+        } else if (formBody) {
+            const formParameters = this.convertParameters(formBody.properties || {}) as FormPartMap;
+            parsedRequest.requestBody = { mimeType: 'multipart/form-data' };
+            parsedRequest.requestBody.schema = {
+                type: 'object',
+                required: Object.keys(formParameters).some(k => formParameters[k].required),
+                properties: formParameters as any
+            } as ObjectProperty;
+        }
+
+        const requestBodies = await this.convertBodies(bodies, models, parsedRequest.requestBody);
+        if (requestBodies) {
+            parsedRequest.requestBodies = requestBodies;
+            parsedRequest.requestBody = parsedRequest.requestBody || requestBodies[Object.keys(requestBodies)[0]];
+        }
+
+        parsedRequest.responses = await this.traverseResponseSchemas(methodRaml.responses, models);
+
+        return parsedRequest;
+    }
+
+    async traverseResponseSchemas(responseMap: any, models: ModelMap): Promise<ResponseMap> {
+        const responseTypes: ResponseMap = {};
+
+        for (let responseCode of Object.keys(responseMap || {})) {
+            const responseRaml = responseMap[responseCode] || {};
+
+            let result: Response = {
+                description: responseRaml.description,
+                responseBodyExample: undefined,
+                responseBodySchema: undefined
+            };
+            if (responseRaml.headers) {
+                result.headers = this.convertParameters(responseRaml.headers);
+            }
+
+            const bodies = this.getBodiesByMediaType(responseRaml.body);
+            const jsonBody = bodies['application/json'] ? await this.convertBody(bodies['application/json'], 'application/json', models) : undefined;
+            if (jsonBody) {
+                result.responseBodySchema = jsonBody.schema;
+                result.responseBodyExample = jsonBody.example;
+            }
+
+            const convertedBodies = await this.convertBodies(bodies, models, jsonBody);
+            if (convertedBodies) {
+                result.bodies = convertedBodies;
+            }
+
+            responseTypes[Number(responseCode)] = result;
+        }
+        return responseTypes;
+    }
+
+    /**
+     * Returns the bodies of a request or response by media type.
+     * Bodies without a media type use the default media type of the document.
+     */
+    protected getBodiesByMediaType(body: any): { [mediaType: string]: any } {
+        if (body == null) {
+            return {};
+        }
+        const keys = typeof body === 'object' && !Array.isArray(body) ? Object.keys(body) : [];
+        if (keys.length && keys.every(key => key.indexOf('/') > 0)) {
+            return body;
+        }
+        return { [this.defaultMediaType]: body };
+    }
+
+    /**
+     * Converts the bodies of all media types except JSON and forms, e.g. binary data declared as "type: file".
+     * @param parsedBody The already converted JSON or form body.
+     */
+    protected async convertBodies(bodies: { [mediaType: string]: any }, models: ModelMap, parsedBody: RequestBody | undefined): Promise<BodyMap | undefined> {
+        const result: BodyMap = {};
+        if (parsedBody) {
+            result[parsedBody.mimeType] = parsedBody;
+        }
+
+        for (let mimeType of Object.keys(bodies)) {
+            if (mimeType !== 'application/json' && mimeType !== 'multipart/form-data') {
+                result[mimeType] = await this.convertBody(bodies[mimeType], mimeType, models);
+            }
+        }
+
+        return Object.keys(result).length ? result : undefined;
+    }
+
+    /** Converts the body declaration for a media type to a request body. */
+    protected async convertBody(body: any, mimeType: string, models: ModelMap): Promise<RequestBody> {
+        const result: RequestBody = { mimeType };
+        const declaration = typeof body === 'string' ? { type: body } : (body || {});
+
+        const example = this.getExample(declaration);
+        if (example !== undefined) {
+            result.example = example;
+        }
+
+        if (declaration.type || declaration.schema || declaration.properties) {
+            const schema = await this.convertTypeDeclaration(declaration, '', models);
+            delete schema.example;
+            result.schema = schema;
+        }
+
+        return result;
+    }
+
+    /** Returns the value of the `example` facet or the first of the `examples` facet. */
+    protected getExample(declaration: any): any {
+        let example = declaration.example;
+        if (example === undefined && declaration.examples && typeof declaration.examples === 'object') {
+            const firstKey = Object.keys(declaration.examples)[0];
+            example = firstKey !== undefined ? declaration.examples[firstKey] : undefined;
+        }
+        if (example && typeof example === 'object' && 'value' in example && !Array.isArray(example)) {
+            example = example.value;
+        }
+        if (typeof example === 'string' && /^\s*[\[{]/.test(example)) {
+            try {
+                example = JSON.parse(example);
+            } catch (err) {
+                // Not a JSON example, keep it as string
+            }
+        }
+        return example;
+    }
+
+    /** Converts a map of RAML 1.0 parameter declarations to named parameters. */
+    protected convertParameters(parameters: any): UrlParameterMap & QueryParameterMap {
+        const result: UrlParameterMap = {};
+
+        for (let key of Object.keys(parameters || {})) {
+            const optionalKey = key.endsWith('?');
+            const name = optionalKey ? key.substr(0, key.length - 1) : key;
+            const declaration = typeof parameters[key] === 'string'
+                ? { type: parameters[key] }
+                : (parameters[key] || {});
+
+            let typeName: string = Array.isArray(declaration.type) ? declaration.type[0] : (declaration.type || 'string');
+            const repeat = typeName === 'array' || /\[\]$/.test(typeName);
+            if (repeat) {
+                typeName = typeName === 'array'
+                    ? (typeof declaration.items === 'string' ? declaration.items : (declaration.items || {}).type || 'string')
+                    : typeName.replace(/\[\]$/, '');
+            }
+
+            const resolved = this.resolveScalarTypeName(typeName);
+            const param: Parameter = {
+                description: declaration.description || '',
+                type: resolved === 'boolean' ? 'boolean'
+                    : (resolved === 'number' || resolved === 'integer') ? 'number'
+                    : resolved === 'file' ? 'file' as any
+                    : 'string',
+                required: declaration.required != null ? !!declaration.required : !optionalKey,
+                repeat
+            };
+
+            if (declaration.displayName) {
+                param.displayName = declaration.displayName;
+            }
+            if (declaration.default != null) {
+                param.default = String(declaration.default);
+            }
+            const example = this.getExample(declaration);
+            if (example != null) {
+                param.example = typeof example === 'string' ? example : JSON.stringify(example);
+            }
+            if (Array.isArray(declaration.enum)) {
+                param.enum = declaration.enum.map(String);
+            }
+
+            result[name] = param;
+        }
+
+        return result;
+    }
+
+    /** Follows scalar type aliases to the built-in type they are based on. */
+    protected resolveScalarTypeName(typeName: string, scope = ''): string {
+        const seen: string[] = [];
+        while (!(typeName in builtinTypes)) {
+            const info = this.findTypeDeclaration(typeName, scope);
+            if (!info || seen.indexOf(typeName) >= 0) {
+                return typeName;
+            }
+            seen.push(typeName);
+            const declaration = info.declaration;
+            const baseType = typeof declaration === 'string' ? declaration : declaration && declaration.type;
+            if (typeof baseType !== 'string') {
+                return typeName;
+            }
+            typeName = baseType;
+            scope = info.scope;
+        }
+        return typeName;
+    }
+
+    /** Find a type declaration by its name relative to the scope (library) of the referencing type. */
+    protected findTypeDeclaration(name: string, scope: string): TypeDeclarationInfo | undefined {
+        return this.typeDeclarations[scope + name] || this.typeDeclarations[name];
+    }
+
+    /**
+     * Converts a RAML 1.0 type declaration to a property definition.
+     * @param declaration A type expression string or a type declaration object.
+     * @param scope The prefix of the library the declaration is part of, e.g. "lib.".
+     */
+    protected async convertTypeDeclaration(declaration: any, scope: string, models: ModelMap, source?: JsonSource): Promise<PropertyDefinition> {
+        if (typeof declaration === 'string') {
+            return this.convertTypeString(declaration, scope, models, source);
+        } else if (declaration == null) {
+            return { type: 'any' };
+        }
+
+        const baseTypeKey = declaration.type !== undefined ? 'type' : 'schema';
+        let baseType = declaration[baseTypeKey];
+        if (baseType === undefined) {
+            baseType = declaration.properties ? 'object'
+                : declaration.items ? 'array'
+                : 'string';
+        }
+
+        let result: PropertyDefinition;
+        if (Array.isArray(baseType)) {
+            // Multiple inheritance: merge the properties of all parent types
+            const parents: PropertyDefinition[] = [];
+            for (let parentType of baseType) {
+                parents.push(await this.convertTypeDeclaration(parentType, scope, models));
+            }
+            result = await this.combineAllOf(parents, models);
+        } else if (typeof baseType === 'object') {
+            result = await this.convertTypeDeclaration(baseType, scope, models);
+        } else if (baseType === 'array') {
+            result = {
+                type: 'array',
+                items: declaration.items != null
+                    ? await this.convertTypeDeclaration(declaration.items, scope, models, { node: declaration, key: 'items' })
+                    : { type: 'any' }
+            };
+        } else if (baseType === 'object') {
+            result = { type: 'object', properties: {} } as ObjectProperty;
+        } else {
+            result = await this.convertTypeString(baseType, scope, models, { node: declaration, key: baseTypeKey });
+        }
+
+        if (declaration.properties || declaration.additionalProperties != null) {
+            // Declaring properties on a named type inherits from the type
+            const base = await this.resolveReference(result, models);
+            const ownProperties = await this.convertProperties(declaration.properties || {}, scope, models);
+            const object: ObjectProperty = {
+                type: 'object',
+                properties: Object.assign({}, base.type === 'object' ? base.properties : {}, ownProperties.properties)
+            } as ObjectProperty;
+            const parentIds = result.type === 'object' ? (result.$ref ? [result.$ref] : result.extends) : undefined;
+            if (parentIds && parentIds.length) {
+                object.extends = parentIds;
+            }
+            const additionalProperties = ownProperties.additionalProperties
+                || (base.type === 'object' ? base.additionalProperties : undefined);
+            if (additionalProperties) {
+                object.additionalProperties = additionalProperties;
+            }
+            result = object;
+        } else if (result.type === 'object' && !result.id && !result.$ref
+                && !result.additionalProperties && !Object.keys(result.properties || {}).length) {
+            // "type: object" without properties is a hash of any values
+            result.additionalProperties = { type: 'any' };
+        } else {
+            result = Object.assign({}, result);
+        }
+
+        if (declaration.description) {
+            result.description = declaration.description;
+        }
+        const example = this.getExample(declaration);
+        if (example !== undefined) {
+            result.example = example;
+        }
+        for (let facet of copiedFacets) {
+            if (declaration[facet] != null) {
+                (result as any)[facet] = declaration[facet];
+            }
+        }
+
+        return result;
+    }
+
+    /** Converts the properties of an object type declaration. */
+    protected async convertProperties(properties: any, scope: string, models: ModelMap): Promise<{ properties: { [name: string]: PropertyDefinition }, additionalProperties?: PropertyDefinition }> {
+        const result: { properties: { [name: string]: PropertyDefinition }, additionalProperties?: PropertyDefinition } = {
+            properties: {}
+        };
+
+        for (let key of Object.keys(properties)) {
+            const declaration = properties[key];
+            const converted = await this.convertTypeDeclaration(declaration, scope, models, { node: properties, key });
+
+            if (/^\/.*\/$/.test(key)) {
+                // Pattern properties like "//" or "/^note\d+$/" describe a hash
+                result.additionalProperties = converted;
+                continue;
+            }
+
+            const optionalKey = key.endsWith('?');
+            const name = optionalKey ? key.substr(0, key.length - 1) : key;
+            const explicitRequired = declaration && typeof declaration === 'object' ? declaration.required : undefined;
+            converted.required = explicitRequired != null ? !!explicitRequired : !optionalKey;
+            result.properties[name] = converted;
+        }
+
+        return result;
+    }
+
+    /**
+     * Converts a type expression like "string", "User[]", "lib.Group" or an embedded JSON schema.
+     * @param source The node and key of the string in the document, used to locate errors in embedded JSON.
+     */
+    protected async convertTypeString(typeString: string, scope: string, models: ModelMap, source?: JsonSource): Promise<PropertyDefinition> {
+        if (/^\s*\{/.test(typeString)) {
+            const schema = await this.parseEmbeddedSchema(typeString, models, this.currentPath, source);
+            return schema || { type: 'any' };
+        }
+        return this.convertTypeExpression(this.parseTypeExpression(typeString), scope, models);
+    }
+
+    protected async convertTypeExpression(expression: TypeExpression, scope: string, models: ModelMap): Promise<PropertyDefinition> {
+        switch (expression.kind) {
+            case 'array':
+                return {
+                    type: 'array',
+                    items: await this.convertTypeExpression(expression.items, scope, models)
+                };
+
+            case 'union':
+                // Nullable values are declared as "Type | nil"
+                const members = expression.members.filter(member => member.kind !== 'name' || member.name !== 'nil');
+                if (members.length < expression.members.length) {
+                    const nonNullable = await this.convertTypeExpression({ kind: 'union', members }, scope, models);
+                    return Object.assign({}, nonNullable, { nullable: true });
+                } else if (members.length === 1) {
+                    return this.convertTypeExpression(members[0], scope, models);
+                }
+
+                const variants: PropertyDefinition[] = [];
+                for (let member of members) {
+                    variants.push(await this.convertTypeExpression(member, scope, models));
+                }
+                const facets = members.map(member => this.findDiscriminatorFacet(member, scope));
+                const discriminator = facets[0] && facets.every(facet => !!facet && facet.discriminator === facets[0]!.discriminator)
+                    ? facets[0]!.discriminator
+                    : undefined;
+                return this.createUnion(variants, models, discriminator,
+                    discriminator ? facets.map(facet => facet!.value) : undefined);
+
+            case 'name':
+                const name = expression.name;
+                if (name in builtinTypes) {
+                    return Object.assign({}, builtinTypes[name]);
+                } else if (name === 'object') {
+                    return { type: 'object', properties: {}, additionalProperties: { type: 'any' } } as ObjectProperty;
+                } else if (name === 'array') {
+                    return { type: 'array', items: { type: 'any' } };
+                }
+
+                const info = this.findTypeDeclaration(name, scope);
+                if (!info) {
+                    this.report('error', 'unknown-type', `Unknown type "${name}"`);
+                    return { type: 'any' };
+                }
+                const qualifiedName = this.typeDeclarations[scope + name] ? scope + name : name;
+                return this.convertNamedType(qualifiedName, info, models);
+        }
+    }
+
+    /**
+     * Converts a reference to a declared type.
+     * Object types are stored in the model hash and referenced via `$ref`, other types are inlined.
+     */
+    protected async convertNamedType(qualifiedName: string, info: TypeDeclarationInfo, models: ModelMap): Promise<PropertyDefinition> {
+        const existingId = this.modelIds[qualifiedName];
+        if (existingId) {
+            return { type: 'object', $ref: existingId } as ObjectProperty;
+        }
+
+        // Problems in the declaration are reported at the declaration, not where it is referenced
+        const parentPath = this.currentPath;
+        const parentLocation = this.currentLocation;
+        this.currentPath = ['types', qualifiedName];
+        this.currentLocation = info.source && this.locate(info.source.node, info.source.key);
+
+        try {
+            if (!this.isObjectTypeDeclaration(info.declaration, info.scope)) {
+                // Non-object types are inlined, which is impossible when they contain themselves
+                const convert = () => this.convertTypeDeclaration(info.declaration, info.scope, models, info.source);
+                return await this.convertWithoutCycles(qualifiedName, convert, () => {
+                    this.report('error', 'circular-reference', `Type "${qualifiedName}" contains itself without an object type in between`);
+                    return { type: 'any' } as PropertyDefinition;
+                });
+            }
+
+            const id = this.generateModelId(qualifiedName, models);
+            this.modelIds[qualifiedName] = id;
+
+            // Store the model before converting its properties to allow self-referencing types
+            const model: ObjectProperty = { type: 'object', id, properties: {} };
+            models[id] = model;
+
+            const converted = await this.convertTypeDeclaration(info.declaration, info.scope, models, info.source);
+            const resolved = await this.resolveReference(converted, models);
+            Object.assign(model, resolved, { id });
+            delete model.$ref;
+
+            return { type: 'object', $ref: id } as ObjectProperty;
+        } finally {
+            this.currentPath = parentPath;
+            this.currentLocation = parentLocation;
+        }
+    }
+
+    /**
+     * Returns the `discriminator` facet of a declared object type (or its parent types)
+     * and the `discriminatorValue` of the type, which defaults to the name of the type.
+     */
+    protected findDiscriminatorFacet(expression: TypeExpression, scope: string): { discriminator: string, value: string } | undefined {
+        if (expression.kind !== 'name') {
+            return undefined;
+        }
+
+        let info = this.findTypeDeclaration(expression.name, scope);
+        const ownDeclaration = info && info.declaration;
+        const value = ownDeclaration && ownDeclaration.discriminatorValue != null
+            ? String(ownDeclaration.discriminatorValue)
+            : expression.name.split('.').pop()!;
+
+        const seen: string[] = [];
+        while (info && info.declaration && typeof info.declaration === 'object') {
+            if (typeof info.declaration.discriminator === 'string') {
+                return { discriminator: info.declaration.discriminator, value };
+            }
+            const parentType = info.declaration.type;
+            if (typeof parentType !== 'string' || seen.indexOf(parentType) >= 0) {
+                break;
+            }
+            seen.push(parentType);
+            info = this.findTypeDeclaration(parentType, info.scope);
+        }
+        return undefined;
+    }
+
+    /** Generates the model id of a declared type, e.g. "lib.UserResponse" => "UserResponse". */
+    protected generateModelId(qualifiedName: string, models: ModelMap): string {
+        const parts = qualifiedName.split('.');
+        let id = parts[parts.length - 1];
+        if (id in models) {
+            id = parts.map(part => part.charAt(0).toUpperCase() + part.substr(1)).join('');
+        }
+        return id;
+    }
+
+    /** Checks if a type declaration describes an object (directly or via inheritance). */
+    protected isObjectTypeDeclaration(declaration: any, scope: string, seen: string[] = []): boolean {
+        if (declaration == null) {
+            return false;
+        } else if (typeof declaration === 'object' && !Array.isArray(declaration)) {
+            if (declaration.properties) {
+                return true;
+            }
+            return this.isObjectTypeDeclaration(declaration.type !== undefined ? declaration.type : declaration.schema, scope, seen);
+        } else if (Array.isArray(declaration)) {
+            return declaration.every(parent => this.isObjectTypeDeclaration(parent, scope, seen));
+        } else if (typeof declaration !== 'string') {
+            return false;
+        }
+
+        if (/^\s*\{/.test(declaration)) {
+            // Embedded JSON schemas are stored in the model hash by their id by normalizeSchema
+            return false;
+        }
+
+        const expression = this.parseTypeExpression(declaration);
+        if (expression.kind !== 'name') {
+            return false;
+        } else if (expression.name === 'object') {
+            return true;
+        }
+
+        const info = this.findTypeDeclaration(expression.name, scope);
+        if (!info || seen.indexOf(expression.name) >= 0) {
+            return false;
+        }
+        return this.isObjectTypeDeclaration(info.declaration, info.scope, seen.concat(expression.name));
+    }
+
+    /**
+     * Parses type expressions like "string", "User[]", "string | nil" or "(Cat | Dog)[]".
+     * Invalid expressions are reported and parsed as "any".
+     */
+    protected parseTypeExpression(input: string): TypeExpression {
+        const tokens = input.match(/\[\]|[|()]|[^\s|()\[\]]+/g) || [];
+        let position = 0;
+
+        const parseUnion = (): TypeExpression => {
+            const members = [parsePostfix()];
+            while (tokens[position] === '|') {
+                position++;
+                members.push(parsePostfix());
+            }
+            return members.length === 1 ? members[0] : { kind: 'union', members };
+        };
+
+        const parsePostfix = (): TypeExpression => {
+            let expression = parsePrimary();
+            while (tokens[position] === '[]') {
+                position++;
+                expression = { kind: 'array', items: expression };
+            }
+            return expression;
+        };
+
+        const parsePrimary = (): TypeExpression => {
+            const token = tokens[position++];
+            if (token === '(') {
+                const expression = parseUnion();
+                if (tokens[position++] !== ')') {
+                    throw new SyntaxError();
+                }
+                return expression;
+            } else if (!token || token === ')' || token === '|' || token === '[]') {
+                throw new SyntaxError();
+            }
+            return { kind: 'name', name: token };
+        };
+
+        try {
+            const result = parseUnion();
+            if (position < tokens.length) {
+                throw new SyntaxError();
+            }
+            return result;
+        } catch (err) {
+            this.report('error', 'invalid-type-expression', `Invalid type expression "${input}"`);
+            return { kind: 'name', name: 'any' };
+        }
+    }
+}
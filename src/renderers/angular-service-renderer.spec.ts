@@ -0,0 +1,159 @@
+import { expect } from 'chai';
+import { AngularServiceRenderer } from './angular-service-renderer';
+import { Endpoint, ObjectProperty, ParsedMeshRAML } from '../interfaces';
+import { unindent } from '../utils/unindent';
+
+describe('AngularServiceRenderer', () => {
+
+    let renderer: AngularServiceRenderer;
+    beforeEach(() => {
+        renderer = new AngularServiceRenderer();
+    });
+
+    const userResponse: ObjectProperty = {
+        type: 'object',
+        id: 'urn:jsonschema:com:gentics:mesh:core:rest:user:UserResponse',
+        properties: {
+            uuid: { type: 'string', required: true }
+        }
+    };
+    const userReference = { type: 'object', $ref: userResponse.id } as ObjectProperty;
+
+    const endpoints: Endpoint[] = [{
+        method: 'GET',
+        url: '/users',
+        description: 'Load multiple users.',
+        queryParameters: {
+            page: { type: 'number', required: false, repeat: false, description: 'Number of the page' }
+        },
+        responses: { 200: { description: 'Users', responseBodySchema: userReference } }
+    }, {
+        method: 'POST',
+        url: '/users/{userUuid}',
+        description: 'Update the user.',
+        urlParameters: {
+            userUuid: { type: 'string', required: true, repeat: false, description: 'Uuid of the user' }
+        },
+        requestBody: { mimeType: 'application/json', schema: userReference },
+        responses: { 200: { description: 'Updated', responseBodySchema: userReference } }
+    }, {
+        method: 'DELETE',
+        url: '/users/{userUuid}',
+        description: 'Delete the user.',
+        urlParameters: {
+            userUuid: { type: 'string', required: true, repeat: false, description: 'Uuid of the user' }
+        },
+        responses: { 204: { description: 'Deleted' } }
+    }, {
+        method: 'GET',
+        url: '/{project}/nodes/{nodeUuid}/binary/{fieldName}',
+        description: 'Download a binary field.',
+        responses: { 200: { description: 'The binary', bodies: { 'image/png': { mimeType: 'image/png' } } } }
+    }];
+
+    const raml: ParsedMeshRAML = {
+        baseUri: '/api/v2',
+        version: '1.0',
+        endpoints,
+        models: { [userResponse.id]: userResponse }
+    };
+
+    it('renders a service per resource with a method per endpoint', async () => {
+        const result = await renderer.generateServices(raml);
+        expect(result).to.contain(unindent `
+            @Injectable({ providedIn: 'root' })
+            export class UsersService {
+
+                constructor(
+                    protected http: HttpClient,
+                    @Inject(API_BASE_URL) protected baseUrl: string) { }
+
+                /**
+                 * Load multiple users.
+                 * \`GET /users\`
+                 */
+                getUsers(queryParams: {
+                    /** Number of the page */
+                    page?: number;
+                } = {}): Observable<UserResponse> {
+                    return this.http.request<UserResponse>('GET', \`\${this.baseUrl}/users\`, { params: toHttpParams(queryParams) });
+                }
+
+                /**
+                 * Update the user.
+                 * \`POST /users/{userUuid}\`
+                 */
+                postUsersUserUuid(userUuid: string, body: UserResponse): Observable<UserResponse> {
+                    return this.http.request<UserResponse>('POST', \`\${this.baseUrl}/users/\${encodeURIComponent(String(userUuid))}\`, { body });
+                }
+
+                /**
+                 * Delete the user.
+                 * \`DELETE /users/{userUuid}\`
+                 */
+                deleteUsersUserUuid(userUuid: string): Observable<void> {
+                    return this.http.request<void>('DELETE', \`\${this.baseUrl}/users/\${encodeURIComponent(String(userUuid))}\`);
+                }
+            }
+        `);
+    });
+
+    it('groups endpoints by the first URL segment which is not a parameter', async () => {
+        const result = await renderer.generateServices(raml);
+        expect(result.match(/export class \w+/g)).to.deep.equal(['export class NodesService', 'export class UsersService']);
+    });
+
+    it('requests binary and text responses with the matching response type', async () => {
+        const result = await renderer.generateServices(raml);
+        expect(result).to.contain(
+            'getProjectNodesNodeUuidBinaryFieldName(project: string, nodeUuid: string, fieldName: string): Observable<Blob> {');
+        expect(result).to.contain(`{ responseType: 'blob' });`);
+    });
+
+    it('keeps the JSON response type of endpoints which also return binary responses', async () => {
+        const result = await renderer.generateServices({
+            baseUri: '/api/v2',
+            version: '1.0',
+            endpoints: [{
+                method: 'GET',
+                url: '/users/{userUuid}',
+                description: 'Load the user or their avatar.',
+                urlParameters: {
+                    userUuid: { type: 'string', required: true, repeat: false, description: 'Uuid of the user' }
+                },
+                responses: {
+                    200: {
+                        description: 'The user',
+                        responseBodySchema: userReference,
+                        bodies: { 'application/json': { mimeType: 'application/json', schema: userReference } }
+                    },
+                    203: { description: 'The avatar', bodies: { 'image/png': { mimeType: 'image/png' } } }
+                }
+            }],
+            models: { [userResponse.id]: userResponse }
+        });
+        expect(result).to.contain('getUsersUserUuid(userUuid: string): Observable<UserResponse> {');
+        expect(result).to.contain(`return this.http.request<UserResponse>('GET', \`\${this.baseUrl}/users/\${encodeURIComponent(String(userUuid))}\`);`);
+    });
+
+    it('uses the interface names of the model renderer options', async () => {
+        renderer.options.interfacePrefix = 'Mesh';
+        renderer.options.serviceSuffix = 'Api';
+        const result = await renderer.generateServices(raml);
+        expect(result).to.contain('export class UsersApi {');
+        expect(result).to.contain('postUsersUserUuid(userUuid: string, body: MeshUserResponse): Observable<MeshUserResponse> {');
+    });
+
+    it('renders the interfaces in the services file or imports them from the model module', async () => {
+        const result = await renderer.renderAll(raml);
+        expect(result).to.contain(`import { HttpClient, HttpParams } from '@angular/common/http';`);
+        expect(result).to.contain('export interface UserResponse {');
+        expect(result).to.contain(`export const API_BASE_URL = new InjectionToken<string>('API_BASE_URL');`);
+
+        renderer.options.modelModule = './models';
+        const resultWithImports = await renderer.renderAll(raml);
+        expect(resultWithImports).to.contain(`import { UserResponse } from './models';`);
+        expect(resultWithImports).not.to.contain('export interface UserResponse {');
+    });
+
+});
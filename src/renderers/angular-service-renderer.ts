@@ -0,0 +1,295 @@
+import { defaultOptions as typescriptOptions, TypescriptModelRenderer } from './typescript-renderer';
+import { Endpoint, Parameter, ParsedMeshRAML, RequestBody } from '../interfaces';
+import { pascalCase } from '../utils/pascal-case';
+import { jsonMediaType, textMediaType } from '../utils/media-types';
+import { endpointMethodName, uniqueName } from '../utils/method-name';
+import { unindent } from '../utils/unindent';
+
+export const defaultOptions = {
+    ...typescriptOptions,
+    /** Name of the injection token which provides the base URL of the API to the services. */
+    baseUrlToken: 'API_BASE_URL',
+    /**
+     * Module the interfaces are imported from, e.g. "./models" when the models are generated by the
+     * TypeScript renderer. When empty, the interfaces are rendered in the services file.
+     */
+    modelModule: '',
+    /** Appended to the pascal-cased resource name to name its service, e.g. "UsersService". */
+    serviceSuffix: 'Service'
+};
+export type Options = typeof defaultOptions;
+
+/** Response type option of the Angular HttpClient. */
+type HttpResponseType = 'json' | 'text' | 'blob';
+
+/**
+ * Renders an injectable Angular service per resource of the API (users, groups, nodes, ...),
+ * with a method per endpoint which requests it via the `HttpClient` and returns a typed `Observable`.
+ * Url parameters are passed as arguments, followed by the request body and the query parameters.
+ *
+ * @example
+ *     providers: [{ provide: API_BASE_URL, useValue: '/api/v2' }]
+ *     ...
+ *     this.usersService.getUsersUserUuid(userUuid).subscribe(user => ...);
+ */
+export class AngularServiceRenderer extends TypescriptModelRenderer {
+
+    public options: Options;
+
+    constructor(options?: Partial<Options>) {
+        super(options);
+        this.options = { ...defaultOptions, ...(options || {}) };
+    }
+
+    async renderAll(raml: ParsedMeshRAML): Promise<string> {
+        const services = await this.generateServices(raml);
+        const parts = [
+            this.generateImports(raml, services),
+            this.options.modelModule ? '' : await this.generateInterfaces(raml, () => true),
+            this.generateHelpers(),
+            services
+        ];
+        return parts.filter(part => !!part).join('\n');
+    }
+
+    /** Render the imports of Angular and rxjs, and of the interfaces used by the services if `modelModule` is set. */
+    protected generateImports(raml: ParsedMeshRAML, services: string): string {
+        const lines = [
+            `// Auto-generated from the RAML for Version ${raml.version} of the Gentics Mesh REST API.`,
+            '',
+            `import { HttpClient, HttpParams } from '@angular/common/http';`,
+            `import { Inject, Injectable, InjectionToken } from '@angular/core';`,
+            `import { Observable } from 'rxjs';`
+        ];
+
+        if (this.options.modelModule) {
+            const usedNames = ['Integer', ...Object.keys(raml.models).map(id => this.generateModelName(id))]
+                .filter(name => new RegExp(`\\b${name}\\b`).test(services))
+                .filter((name, index, names) => names.indexOf(name) === index)
+                .sort();
+            if (usedNames.length) {
+                lines.push(`import { ${usedNames.join(', ')} } from '${this.options.modelModule}';`);
+            }
+        } else {
+            lines.push('', 'export type Integer = number;');
+        }
+        return lines.join('\n') + '\n';
+    }
+
+    /** Render the injection token of the base URL and the functions used by all services. */
+    protected generateHelpers(): string {
+        return unindent `
+            /** Base URL of the API, e.g. "/api/v2", which is provided by the application. */
+            export const ${this.options.baseUrlToken} = new InjectionToken<string>('${this.options.baseUrlToken}');
+
+            /** Converts query parameters to HttpParams, array values are repeated and empty values are omitted. */
+            function toHttpParams(params: { [name: string]: any }): HttpParams {
+                let httpParams = new HttpParams();
+                for (const name of Object.keys(params)) {
+                    const values: any[] = Array.isArray(params[name]) ? params[name] : [params[name]];
+                    for (const value of values.filter(value => value != null)) {
+                        httpParams = httpParams.append(name, String(value));
+                    }
+                }
+                return httpParams;
+            }
+
+            /** Converts request headers to strings, empty values are omitted. */
+            function toHeaders(headers: { [name: string]: any }): { [name: string]: string } {
+                const result: { [name: string]: string } = {};
+                for (const name of Object.keys(headers).filter(name => headers[name] != null)) {
+                    result[name] = String(headers[name]);
+                }
+                return result;
+            }
+
+            /** Converts the fields of a multipart request body to FormData. */
+            function toFormData(body: { [name: string]: any }): FormData {
+                const formData = new FormData();
+                for (const name of Object.keys(body).filter(name => body[name] != null)) {
+                    formData.append(name, body[name]);
+                }
+                return formData;
+            }
+
+        `.replace(/^(?:    )+/gm, (match: string) => new Array(match.length / 4 + 1).join(this.options.indentation));
+    }
+
+    /** Generate a service for every resource, sorted by the service name. */
+    async generateServices(raml: ParsedMeshRAML): Promise<string> {
+        const endpointsByService: { [serviceName: string]: Endpoint[] } = {};
+        for (let endpoint of raml.endpoints) {
+            const serviceName = this.generateServiceName(endpoint);
+            endpointsByService[serviceName] = endpointsByService[serviceName] || [];
+            endpointsByService[serviceName].push(endpoint);
+        }
+
+        const services: string[] = [];
+        for (let serviceName of Object.keys(endpointsByService).sort()) {
+            const methods: string[] = [];
+            const usedNames: string[] = [];
+            const endpointsByUrl = this.groupEndpointsByUrl(endpointsByService[serviceName]);
+            for (let url of Object.keys(endpointsByUrl)) {
+                for (let endpoint of endpointsByUrl[url]) {
+                    const name = uniqueName(endpointMethodName(endpoint), usedNames);
+                    methods.push('', ...await this.generateMethod(endpoint, name));
+                }
+            }
+
+            services.push([
+                `@Injectable({ providedIn: 'root' })`,
+                `export class ${serviceName} {`,
+                '',
+                ...this.indent([
+                    'constructor(',
+                    ...this.indent([
+                        'protected http: HttpClient,',
+                        `@Inject(${this.options.baseUrlToken}) protected baseUrl: string) { }`
+                    ]),
+                    ...methods
+                ]),
+                '}',
+                ''
+            ].join('\n'));
+        }
+        return services.join('\n');
+    }
+
+    /**
+     * Returns the name of the service of an endpoint by its resource, the first URL segment which is not a parameter,
+     * e.g. "/{project}/nodes/{nodeUuid}" => "NodesService".
+     */
+    protected generateServiceName(endpoint: Endpoint): string {
+        const segments = endpoint.url.split('/').filter(segment => !!segment);
+        const resource = segments.filter(segment => !/^\{.*\}$/.test(segment))[0] || segments[0] || 'api';
+        return pascalCase(resource) + this.options.serviceSuffix;
+    }
+
+    /** Generate a service method which requests an endpoint and returns an Observable of its response type. */
+    protected async generateMethod(endpoint: Endpoint, name: string): Promise<string[]> {
+        const parameters: string[] = [];
+        const optionKeys: string[] = [];
+        const headerTexts: string[] = [];
+
+        // Url parameters are substituted in a template literal
+        let urlText = '${this.baseUrl}' + endpoint.url.replace(/[`\\]/g, '\\$&');
+        const urlParamNames = (endpoint.url.match(/\{[^}]+\}/g) || []).map(match => match.slice(1, -1));
+        for (let paramName of urlParamNames) {
+            const param = endpoint.urlParameters && endpoint.urlParameters[paramName];
+            const argumentName = this.formatArgumentName(paramName);
+            parameters.push(`${argumentName}: ${param ? param.type : 'string'}`);
+            urlText = urlText.replace(`{${paramName}}`, `\${encodeURIComponent(String(${argumentName}))}`);
+        }
+
+        const requestBody = this.getRequestBody(endpoint);
+        const hasRequiredParams = [endpoint.queryParameters, endpoint.headers].some(paramMap =>
+            !!paramMap && Object.keys(paramMap).some(key => paramMap[key].required));
+        if (requestBody) {
+            const bodyType = await this.renderBodyType(requestBody) || 'any';
+            const optional = !hasRequiredParams && !!requestBody.schema && requestBody.schema.required === false;
+            parameters.push(`body${optional ? '?' : ''}: ${bodyType}`);
+            if (requestBody.mimeType === 'multipart/form-data') {
+                optionKeys.push('body: toFormData(body || {})');
+            } else {
+                optionKeys.push('body');
+                if (!jsonMediaType.test(requestBody.mimeType)) {
+                    headerTexts.push(`'Content-Type': '${requestBody.mimeType}'`);
+                }
+            }
+        }
+
+        const queryParameters = endpoint.queryParameters || {};
+        if (Object.keys(queryParameters).length) {
+            parameters.push(this.formatParameterArgument('queryParams', queryParameters));
+            optionKeys.push('params: toHttpParams(queryParams)');
+        }
+        const headers = endpoint.headers || {};
+        if (Object.keys(headers).length) {
+            parameters.push(this.formatParameterArgument('headers', headers));
+            headerTexts.push('...toHeaders(headers)');
+        }
+
+        if (headerTexts.length === 1 && headerTexts[0] === '...toHeaders(headers)') {
+            optionKeys.push('headers: toHeaders(headers)');
+        } else if (headerTexts.length) {
+            optionKeys.push(`headers: { ${headerTexts.join(', ')} }`);
+        }
+
+        const { responseType, typeText } = await this.getResponseType(endpoint);
+        if (responseType !== 'json') {
+            optionKeys.push(`responseType: '${responseType}'`);
+        }
+
+        const typeArgument = responseType === 'json' ? `<${typeText}>` : '';
+        const requestArguments = [`'${endpoint.method}'`, '`' + urlText + '`'];
+        if (optionKeys.length) {
+            requestArguments.push(`{ ${optionKeys.join(', ')} }`);
+        }
+
+        return [
+            ...this.generateJsDoc({ description: endpoint.description, tags: [`\`${endpoint.method} ${endpoint.url}\``] }),
+            ...this.formatMultilineValue(name + '(',
+                parameters.join(', '), `): Observable<${typeText}> {`),
+            this.options.indentation + `return this.http.request${typeArgument}(${requestArguments.join(', ')});`,
+            '}'
+        ];
+    }
+
+    /** Returns the JSON or form body of a request, or the first body for other media types. */
+    protected getRequestBody(endpoint: Endpoint): RequestBody | undefined {
+        const requestBodies = endpoint.requestBodies || {};
+        return endpoint.requestBody || requestBodies[Object.keys(requestBodies)[0]];
+    }
+
+    /**
+     * Returns the `responseType` option of the HttpClient and the type of the successful responses of an endpoint.
+     * Text and binary responses are requested as string and blob, unless a successful response has a JSON body.
+     */
+    protected async getResponseType(endpoint: Endpoint): Promise<{ responseType: HttpResponseType, typeText: string }> {
+        const typeTexts: string[] = [];
+        let hasJsonBody = false;
+        let otherMimeType: string | undefined;
+        const successCodes = Object.keys(endpoint.responses).filter(statusCode => /^2/.test(statusCode));
+
+        for (let statusCode of successCodes) {
+            const response = endpoint.responses[Number(statusCode)];
+            const mimeTypes = Object.keys(response.bodies || {});
+            let typeText: string | undefined;
+            if (response.responseBodySchema) {
+                typeText = await this.renderTypescriptPropertyDefinition(response.responseBodySchema);
+            } else if (statusCode === '204') {
+                typeText = 'void';
+            }
+
+            if (response.responseBodySchema || mimeTypes.some(mimeType => jsonMediaType.test(mimeType))) {
+                hasJsonBody = true;
+            }
+            otherMimeType = otherMimeType || mimeTypes.filter(mimeType => !jsonMediaType.test(mimeType))[0];
+            if (typeText && typeTexts.indexOf(typeText) < 0) {
+                typeTexts.push(typeText);
+            }
+        }
+
+        if (!hasJsonBody && otherMimeType) {
+            return textMediaType.test(otherMimeType)
+                ? { responseType: 'text', typeText: 'string' }
+                : { responseType: 'blob', typeText: 'Blob' };
+        }
+        return { responseType: 'json', typeText: typeTexts.length ? typeTexts.join(' | ') : 'any' };
+    }
+
+    /** Formats query parameters or headers as argument, which defaults to an empty object if no parameter is required. */
+    protected formatParameterArgument(argumentName: string, paramMap: { [key: string]: Parameter }): string {
+        const required = Object.keys(paramMap).some(key => paramMap[key].required);
+        return argumentName + ': ' + this.formatParameters(paramMap).join('\n') + (required ? '' : ' = {}');
+    }
+
+    /** Formats a url parameter as argument name, e.g. "node-uuid" => "nodeUuid" */
+    protected formatArgumentName(paramName: string): string {
+        if (/^[a-zA-Z_$][\w$]*$/.test(paramName)) {
+            return paramName;
+        }
+        const name = pascalCase(paramName);
+        return name.charAt(0).toLowerCase() + name.substr(1);
+    }
+}
@@ -0,0 +1,163 @@
+import { expect } from 'chai';
+import { ApiClientRenderer } from './api-client-renderer';
+import { Endpoint, ObjectProperty, ParsedMeshRAML } from '../interfaces';
+import { unindent } from '../utils/unindent';
+
+describe('ApiClientRenderer', () => {
+
+    let renderer: ApiClientRenderer;
+    beforeEach(() => {
+        renderer = new ApiClientRenderer();
+    });
+
+    const userResponse: ObjectProperty = {
+        type: 'object',
+        id: 'urn:jsonschema:com:gentics:mesh:core:rest:user:UserResponse',
+        properties: {
+            uuid: { type: 'string', required: true }
+        }
+    };
+
+    const userReference = { type: 'object', $ref: userResponse.id } as ObjectProperty;
+
+    const endpoints: Endpoint[] = [{
+        method: 'GET',
+        url: '/users',
+        description: 'Load multiple users.',
+        queryParameters: {
+            page: { type: 'number', required: false, repeat: false, description: 'Page' }
+        },
+        responses: { 200: { description: 'Users', responseBodySchema: userReference } }
+    }, {
+        method: 'POST',
+        url: '/users/{userUuid}',
+        description: 'Update the user.',
+        urlParameters: {
+            userUuid: { type: 'string', required: true, repeat: false, description: 'Uuid of the user' }
+        },
+        requestBody: { mimeType: 'application/json', schema: userReference },
+        responses: { 200: { description: 'Updated', responseBodySchema: userReference } }
+    }, {
+        method: 'POST',
+        url: '/users/{userUuid}/avatar',
+        description: 'Upload an avatar',
+        urlParameters: {
+            userUuid: { type: 'string', required: true, repeat: false, description: 'Uuid of the user' }
+        },
+        requestBody: { mimeType: 'multipart/form-data' },
+        responses: { 204: { description: 'Uploaded' } }
+    }];
+
+    const raml: ParsedMeshRAML = {
+        baseUri: '/api/v2',
+        version: '1.0',
+        endpoints,
+        models: { [userResponse.id]: userResponse }
+    };
+
+    it('renders a method for every endpoint, named by method and URL', () => {
+        const result = renderer.generateClient(raml);
+        expect(result).to.contain(unindent `
+                /**
+                 * Load multiple users.
+                 * \`GET /users\`
+                 */
+                getUsers(request: ApiEndpoints['GET']['/users']['request'] = {}): Promise<ApiEndpoints['GET']['/users']['responseType']> {
+                    return this.request('GET', '/users', request);
+                }
+
+                /**
+                 * Update the user.
+                 * \`POST /users/{userUuid}\`
+                 */
+                postUsersUserUuid(request: ApiEndpoints['POST']['/users/{userUuid}']['request']): Promise<ApiEndpoints['POST']['/users/{userUuid}']['responseType']> {
+                    return this.request('POST', '/users/{userUuid}', request, 'application/json');
+                }
+        `.replace(/^(?=.)/gm, '    '));
+        expect(result).to.contain(`return this.request('POST', '/users/{userUuid}/avatar', request, 'multipart/form-data');`);
+        expect(result).to.match(/^export class ApiClient \{$/m);
+    });
+
+    it('adds a counter to methods whose name is already used', () => {
+        const result = renderer.generateClient({
+            baseUri: '/api/v2',
+            version: '1.0',
+            endpoints: [
+                { method: 'GET', url: '/users/{userUuid}', description: '', responses: {} },
+                { method: 'GET', url: '/users/user-uuid', description: '', responses: {} }
+            ],
+            models: {}
+        });
+        expect(result).to.contain(`getUsersUserUuid(request: `);
+        expect(result).to.contain(`getUsersUserUuid2(request: `);
+    });
+
+    it('renders the models and the endpoint interface in the client file', async () => {
+        const result = await renderer.renderAll(raml);
+        expect(result).to.match(/^\/\/ Auto-generated from the RAML for Version 1\.0/);
+        expect(result).to.contain('export interface ApiEndpoints {');
+        expect(result).to.contain('export interface UserResponse {');
+        expect(result).to.contain('export class ApiClientError extends Error {');
+    });
+
+    it('imports the endpoint interface from the model module if set', async () => {
+        renderer.options.modelModule = './models';
+        const result = await renderer.renderAll(raml);
+        expect(result).to.contain(`import { ApiEndpoints } from './models';`);
+        expect(result).not.to.contain('export interface UserResponse {');
+    });
+
+    it('renders a client which requests the endpoints with the passed fetch implementation', async () => {
+        // Evaluate the rendered client with its type annotations removed
+        const requests: any[] = [];
+        const fetch = (url: string, init: any) => {
+            requests.push({ url, init });
+            const status = url.indexOf('missing') >= 0 ? 404 : init.headers['If-None-Match'] ? 304 : 200;
+            const contentType = url.indexOf('/avatar') >= 0 ? null : 'application/json; charset=utf-8';
+            return Promise.resolve({
+                ok: status === 200,
+                status,
+                headers: { get: () => contentType },
+                json: () => Promise.resolve({ uuid: 'abc' }),
+                text: () => Promise.resolve('')
+            });
+        };
+        const ApiClient = compileClient(renderer.generateFetchTypes() + renderer.generateClient(raml));
+        const client = new ApiClient('/api/v2', fetch, { Authorization: 'Bearer token' });
+
+        expect(await client.getUsers({ queryParams: { page: 2, perPage: undefined, role: ['a b', 'c'] } })).to.deep.equal({ uuid: 'abc' });
+        expect(requests[0].url).to.equal('/api/v2/users?page=2&role=a%20b&role=c');
+        expect(requests[0].init).to.deep.equal({ method: 'GET', headers: { Authorization: 'Bearer token' }, body: undefined });
+
+        await client.postUsersUserUuid({ urlParams: { userUuid: 'a/b' }, body: { uuid: 'abc' } });
+        expect(requests[1].url).to.equal('/api/v2/users/a%2Fb');
+        expect(requests[1].init).to.deep.equal({
+            method: 'POST',
+            headers: { 'Authorization': 'Bearer token', 'Content-Type': 'application/json' },
+            body: '{"uuid":"abc"}'
+        });
+
+        const notModified = await client.getUsers({ headers: { 'If-None-Match': 'W/"etag"' } });
+        expect(notModified).to.equal(undefined);
+        expect(requests[2].init.headers).to.deep.equal({ 'Authorization': 'Bearer token', 'If-None-Match': 'W/"etag"' });
+
+        let error: any;
+        try {
+            await client.getUsers({ urlParams: {}, queryParams: { missing: true } });
+        } catch (err) {
+            error = err;
+        }
+        expect(error.status).to.equal(404);
+        expect(error.body).to.deep.equal({ uuid: 'abc' });
+    });
+
+    /** Strips the TypeScript syntax of the rendered client and returns the client class. */
+    function compileClient(code: string): any {
+        const ts = require('typescript');
+        const js = ts.transpileModule(code, { compilerOptions: { target: ts.ScriptTarget.ES2017, module: ts.ModuleKind.CommonJS } }).outputText;
+        const exports: any = {};
+        new Function('exports', js)(exports);
+        return exports.ApiClient;
+    }
+
+});
@@ -0,0 +1,266 @@
+import { ModelRenderer } from './renderer';
+import { TypescriptModelRenderer } from './typescript-renderer';
+import { Endpoint, ParsedMeshRAML } from '../interfaces';
+import { jsonMediaType, textMediaType } from '../utils/media-types';
+import { endpointMethodName, uniqueName } from '../utils/method-name';
+import { unindent } from '../utils/unindent';
+
+export const defaultOptions = {
+    clientName: 'ApiClient',
+    /** Name of the error class thrown for responses with an error status. */
+    errorName: 'ApiClientError',
+    indentation: '    ',
+    /**
+     * Module the endpoint interface is imported from, e.g. "./models" when the models are generated
+     * by the TypeScript renderer with `addEndpointList`. When empty, the models are rendered in the client file.
+     */
+    modelModule: ''
+};
+export type Options = typeof defaultOptions;
+
+/**
+ * Renders a dependency-free API client class with one method per endpoint, which requests the endpoint
+ * via an injectable `fetch` implementation. Request and response types reference the endpoint interface
+ * of the {@link TypescriptModelRenderer}.
+ *
+ * @example
+ *     const client = new ApiClient('https://demo.getmesh.io/api/v2', fetch);
+ *     const user = await client.getUsersUserUuid({ urlParams: { userUuid: '...' } });
+ */
+export class ApiClientRenderer implements ModelRenderer {
+
+    public options: Options;
+
+    /** Renders the models and the endpoint interface when they are not imported from `modelModule`. */
+    public modelRenderer: TypescriptModelRenderer;
+
+    constructor(options?: Partial<Options>) {
+        this.options = { ...defaultOptions, ...(options || {}) };
+        this.modelRenderer = new TypescriptModelRenderer({ addEndpointList: true });
+    }
+
+    async renderAll(raml: ParsedMeshRAML): Promise<string> {
+        const models = this.options.modelModule
+            ? `import { ${this.modelRenderer.options.endpointInterface} } from '${this.options.modelModule}';\n\n`
+            : await this.modelRenderer.renderAll(raml);
+        return [
+            this.options.modelModule ? this.fileHead(raml.version) + models : models,
+            this.generateFetchTypes(),
+            this.generateClient(raml)
+        ].filter(part => !!part).join('\n');
+    }
+
+    protected fileHead(version: string): string {
+        return unindent `
+            // Auto-generated from the RAML for Version ${version} of the Gentics Mesh REST API.
+
+
+        `;
+    }
+
+    /** Generate the types of the injected `fetch` implementation and the error class of the client. */
+    generateFetchTypes(): string {
+        const { errorName } = this.options;
+        return this.reindent(unindent `
+            /** Implementation of \`fetch\`, e.g. the global \`fetch\` function of browsers or Node.js 18. */
+            export type FetchFunction = (url: string, init: FetchRequestInit) => Promise<FetchResponse>;
+
+            export interface FetchRequestInit {
+                method: string;
+                headers: { [name: string]: string };
+                body?: any;
+            }
+
+            /** The properties of the fetch \`Response\` used by the client. */
+            export interface FetchResponse {
+                ok: boolean;
+                status: number;
+                headers: { get(name: string): string | null };
+                json(): Promise<any>;
+                text(): Promise<string>;
+                blob(): Promise<any>;
+            }
+
+            /** Parameters and body of a request, as declared in the endpoint interface. */
+            export interface ApiRequest {
+                urlParams?: { [name: string]: any };
+                queryParams?: { [name: string]: any };
+                headers?: { [name: string]: any };
+                body?: any;
+            }
+
+            /** Thrown for responses with an error status, contains the parsed response body. */
+            export class ${errorName} extends Error {
+                constructor(public status: number, public body: any) {
+                    super(\`Request failed with status \${status}\`);
+                    Object.setPrototypeOf(this, ${errorName}.prototype);
+                }
+            }
+
+        `);
+    }
+
+    /** Generate the client class with a method for every endpoint and the helpers to send requests. */
+    generateClient(raml: ParsedMeshRAML): string {
+        const { clientName, errorName } = this.options;
+        const methods: string[] = [];
+        const usedNames: string[] = [];
+        for (let endpoint of this.sortEndpoints(raml.endpoints)) {
+            const name = uniqueName(endpointMethodName(endpoint), usedNames);
+            methods.push(...this.generateMethod(endpoint, name), '');
+        }
+
+        const head = unindent `
+            /** Client for the API, which sends requests with the passed \`fetch\` implementation. */
+            export class ${clientName} {
+
+                constructor(
+                    public baseUrl: string,
+                    protected fetchImplementation: FetchFunction = (url, init) => fetch(url, init),
+                    public defaultHeaders: { [name: string]: string } = {}) { }
+
+        `;
+        const helpers = unindent `
+            /**
+             * Sends a request with url parameters replaced in the URL and returns the parsed response body.
+             * Responses without body (204 No Content and 304 Not Modified) return undefined.
+             */
+            protected async request(method: string, url: string, request: ApiRequest, bodyMediaType?: string): Promise<any> {
+                const urlParams = request.urlParams || {};
+                const path = url.replace(/\\{([^}]+)\\}/g, (match, name) => encodeURIComponent(String(urlParams[name])));
+                const headers: { [name: string]: string } = { ...this.defaultHeaders };
+                for (const name of Object.keys(request.headers || {})) {
+                    if (request.headers![name] != null) {
+                        headers[name] = String(request.headers![name]);
+                    }
+                }
+
+                let body: any;
+                if (request.body !== undefined && bodyMediaType) {
+                    if (bodyMediaType === 'multipart/form-data') {
+                        body = this.createFormData(request.body);
+                    } else if (${jsonMediaType}.test(bodyMediaType)) {
+                        body = JSON.stringify(request.body);
+                        headers['Content-Type'] = bodyMediaType;
+                    } else {
+                        body = request.body;
+                        headers['Content-Type'] = bodyMediaType;
+                    }
+                }
+
+                const fullUrl = this.baseUrl + path + this.formatQueryString(request.queryParams || {});
+                const response = await this.fetchImplementation(fullUrl, { method, headers, body });
+                const responseBody = await this.parseResponseBody(response);
+                if (!response.ok && response.status !== 304) {
+                    throw new ${errorName}(response.status, responseBody);
+                }
+                return responseBody;
+            }
+
+            /** Formats query parameters as query string, array values are repeated and empty values are omitted. */
+            protected formatQueryString(queryParams: { [name: string]: any }): string {
+                const parts: string[] = [];
+                for (const name of Object.keys(queryParams)) {
+                    const values: any[] = Array.isArray(queryParams[name]) ? queryParams[name] : [queryParams[name]];
+                    for (const value of values.filter(value => value != null)) {
+                        parts.push(encodeURIComponent(name) + '=' + encodeURIComponent(String(value)));
+                    }
+                }
+                return parts.length ? '?' + parts.join('&') : '';
+            }
+
+            /** Creates the body of multipart requests, override to use a \`FormData\` implementation other than the global one. */
+            protected createFormData(body: { [name: string]: any }): any {
+                const formData = new FormData();
+                for (const name of Object.keys(body)) {
+                    if (body[name] != null) {
+                        formData.append(name, body[name]);
+                    }
+                }
+                return formData;
+            }
+
+            /** Parses JSON responses, text responses are returned as string and all other responses as blob. */
+            protected parseResponseBody(response: FetchResponse): Promise<any> {
+                const contentType = response.headers.get('Content-Type') || '';
+                if (response.status === 204 || response.status === 304) {
+                    return Promise.resolve(undefined);
+                } else if (${jsonMediaType}.test(contentType)) {
+                    return response.json();
+                } else if (!contentType || ${textMediaType}.test(contentType)) {
+                    return response.text();
+                }
+                return response.blob();
+            }
+        `;
+        return [
+            this.reindent(head),
+            ...this.indent(methods),
+            ...this.indent(this.reindent(helpers).split('\n')),
+            '}\n'
+        ].join('\n');
+    }
+
+    /**
+     * Generate a method which requests an endpoint. The parameter is optional if the endpoint
+     * has no required parameters and no required body.
+     */
+    protected generateMethod(endpoint: Endpoint, name: string): string[] {
+        const endpointType = `${this.modelRenderer.options.endpointInterface}['${endpoint.method}']['${endpoint.url}']`;
+        const requestParameter = `request: ${endpointType}['request']` + (this.isRequestOptional(endpoint) ? ' = {}' : '');
+        const bodyMediaType = this.getRequestMediaType(endpoint);
+        const args = [`'${endpoint.method}'`, `'${endpoint.url}'`, 'request'];
+        if (bodyMediaType) {
+            args.push(`'${bodyMediaType}'`);
+        }
+
+        const description = (endpoint.description || '').replace(/\s+/g, ' ').replace(/\*\//g, '*\\/').trim();
+        return [
+            '/**',
+            ...(description ? [' * ' + description] : []),
+            ` * \`${endpoint.method} ${endpoint.url}\``,
+            ' */',
+            `${name}(${requestParameter}): Promise<${endpointType}['responseType']> {`,
+            this.options.indentation + `return this.request(${args.join(', ')});`,
+            '}'
+        ];
+    }
+
+    /** Returns the media type of the request body, JSON and form bodies are preferred over other media types. */
+    protected getRequestMediaType(endpoint: Endpoint): string | undefined {
+        if (endpoint.requestBody) {
+            return endpoint.requestBody.mimeType;
+        }
+        return Object.keys(endpoint.requestBodies || {})[0];
+    }
+
+    protected isRequestOptional(endpoint: Endpoint): boolean {
+        const parameterMaps = [endpoint.urlParameters, endpoint.queryParameters, endpoint.headers];
+        const hasRequiredParameters = parameterMaps.some(paramMap =>
+            !!paramMap && Object.keys(paramMap).some(key => paramMap[key].required));
+
+        const { requestBody } = endpoint;
+        const hasBody = !!requestBody || Object.keys(endpoint.requestBodies || {}).length > 0;
+        const optionalBody = !!requestBody && !!requestBody.schema && requestBody.schema.required === false;
+        return !hasRequiredParameters && (!hasBody || optionalBody);
+    }
+
+    /** Sort endpoints by URL and method like the endpoint interface. */
+    protected sortEndpoints(endpoints: Endpoint[]): Endpoint[] {
+        const methodOrder = this.modelRenderer.options.methodSortOrder;
+        return endpoints.slice().sort((a, b) => a.url < b.url ? -1 : a.url > b.url ? 1
+            : methodOrder.indexOf(a.method) - methodOrder.indexOf(b.method));
+    }
+
+    protected indent(lines: string[]): string[] {
+        return lines.map(line => line ? this.options.indentation + line : '');
+    }
+
+    /** Replaces the four-space indentation of the rendered templates with the configured indentation. */
+    protected reindent(text: string): string {
+        if (this.options.indentation === '    ') {
+            return text;
+        }
+        return text.replace(/^((?:    )+)/gm, (match: string) => new Array(match.length / 4 + 1).join(this.options.indentation));
+    }
+}
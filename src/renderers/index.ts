@@ -1 +1,48 @@
+import { ModelRenderer } from './renderer';
+import { AngularServiceRenderer } from './angular-service-renderer';
+import { ApiClientRenderer } from './api-client-renderer';
+import { JsonSchemaRenderer } from './json-schema-renderer';
+import { TypescriptModelRenderer } from './typescript-renderer';
+import { ZodRenderer } from './zod-renderer';
+
+export { AngularServiceRenderer } from './angular-service-renderer';
+export { ApiClientRenderer } from './api-client-renderer';
+export { JsonSchemaRenderer } from './json-schema-renderer';
 export { TypescriptModelRenderer } from './typescript-renderer';
+export { ZodRenderer } from './zod-renderer';
+
+/** Output formats which can be rendered by the model generator. */
+export type OutputFormat = 'angular' | 'client' | 'json-schema' | 'typescript' | 'zod';
+export const outputFormats: OutputFormat[] = ['angular', 'client', 'json-schema', 'typescript', 'zod'];
+
+/** Creates a renderer for the passed output format. */
+export function createRenderer(format: OutputFormat): ModelRenderer {
+    switch (format) {
+        case 'angular':
+            return new AngularServiceRenderer();
+        case 'client':
+            return new ApiClientRenderer();
+        case 'json-schema':
+            return new JsonSchemaRenderer();
+        case 'zod':
+            return new ZodRenderer();
+        default:
+            return new TypescriptModelRenderer();
+    }
+}
+
+/** Returns the name of the file `renderAll` output is written to when no output file is passed. */
+export function defaultFileName(format: OutputFormat): string {
+    switch (format) {
+        case 'angular':
+            return 'api-services.ts';
+        case 'client':
+            return 'api-client.ts';
+        case 'json-schema':
+            return 'models.schema.json';
+        case 'zod':
+            return 'model-schemas.ts';
+        default:
+            return 'models.ts';
+    }
+}
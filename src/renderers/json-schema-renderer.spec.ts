@@ -0,0 +1,125 @@
+import { expect } from 'chai';
+import { JsonSchemaRenderer } from './json-schema-renderer';
+import { ModelMap, ObjectProperty, ParsedMeshRAML } from '../interfaces';
+
+describe('JsonSchemaRenderer', () => {
+
+    let renderer: JsonSchemaRenderer;
+    beforeEach(() => {
+        renderer = new JsonSchemaRenderer();
+    });
+
+    const models: ModelMap = {
+        'urn:jsonschema:com:gentics:mesh:core:rest:user:UserResponse': {
+            type: 'object',
+            id: 'urn:jsonschema:com:gentics:mesh:core:rest:user:UserResponse',
+            description: 'A user',
+            properties: {
+                uuid: { type: 'string', required: true, format: 'uuid' },
+                username: { type: 'string', required: true, minLength: 3, example: 'joe1' },
+                emailAddress: { type: 'string', required: false, nullable: true },
+                groups: {
+                    type: 'array',
+                    required: true,
+                    items: { type: 'object', $ref: 'urn:jsonschema:com:gentics:mesh:core:rest:group:GroupReference' } as ObjectProperty
+                },
+                preferences: {
+                    type: 'object',
+                    required: false,
+                    properties: {
+                        language: { type: 'string', required: true, enum: ['de', 'en'] }
+                    }
+                } as any
+            }
+        },
+        'urn:jsonschema:com:gentics:mesh:core:rest:group:GroupReference': {
+            type: 'object',
+            id: 'urn:jsonschema:com:gentics:mesh:core:rest:group:GroupReference',
+            properties: {
+                name: { type: 'string', required: true },
+                uuid: { type: 'string', required: true }
+            }
+        }
+    };
+
+    it('renders one file per model with $id and $refs to other files', async () => {
+        renderer.options.baseUri = 'https://example.com/schemas/';
+        const files = await renderer.renderFiles({ models } as ParsedMeshRAML);
+        expect(Object.keys(files)).to.deep.equal(['UserResponse.schema.json', 'GroupReference.schema.json']);
+        expect(JSON.parse(files['UserResponse.schema.json'])).to.deep.equal({
+            $schema: 'http://json-schema.org/draft-07/schema#',
+            $id: 'https://example.com/schemas/UserResponse.schema.json',
+            title: 'UserResponse',
+            type: 'object',
+            description: 'A user',
+            properties: {
+                uuid: { type: 'string', format: 'uuid' },
+                username: { type: 'string', minLength: 3, examples: ['joe1'] },
+                emailAddress: { type: ['string', 'null'] },
+                groups: { type: 'array', items: { $ref: 'GroupReference.schema.json' } },
+                preferences: {
+                    type: 'object',
+                    properties: {
+                        language: { type: 'string', enum: ['de', 'en'] }
+                    },
+                    required: ['language']
+                }
+            },
+            required: ['uuid', 'username', 'groups']
+        });
+    });
+
+    it('renders all models as definitions of one document', async () => {
+        const document = JSON.parse(await renderer.renderAll({ models } as ParsedMeshRAML));
+        expect(Object.keys(document.definitions)).to.deep.equal(['UserResponse', 'GroupReference']);
+        expect(document.definitions.UserResponse.properties.groups.items).to.deep.equal({ $ref: '#/definitions/GroupReference' });
+
+        renderer.options.draft = '2020-12';
+        const newDocument = JSON.parse(await renderer.renderAll({ models } as ParsedMeshRAML));
+        expect(newDocument.$schema).to.equal('https://json-schema.org/draft/2020-12/schema');
+        expect(newDocument.$defs.UserResponse.properties.groups.items).to.deep.equal({ $ref: '#/$defs/GroupReference' });
+    });
+
+    it('renders extended models, unions and intersections', async () => {
+        const composedModels: ModelMap = {
+            Element: {
+                type: 'object',
+                id: 'Element',
+                properties: { uuid: { type: 'string', required: true } }
+            },
+            Tag: {
+                type: 'object',
+                id: 'Tag',
+                extends: ['Element'],
+                properties: { name: { type: 'string', required: true } }
+            },
+            Result: {
+                type: 'union',
+                nullable: true,
+                discriminator: 'kind',
+                discriminatorValues: ['tag', undefined],
+                variants: [
+                    { type: 'object', $ref: 'Tag' } as ObjectProperty,
+                    { type: 'intersection', members: [{ type: 'object', $ref: 'Element' } as ObjectProperty, { type: 'any' }] }
+                ]
+            } as any
+        };
+        (composedModels['Tag'] as ObjectProperty).properties.uuid = (composedModels['Element'] as ObjectProperty).properties.uuid;
+
+        const files = await renderer.renderFiles({ models: composedModels } as ParsedMeshRAML);
+        expect(JSON.parse(files['Tag.schema.json']).allOf).to.deep.equal([
+            { $ref: 'Element.schema.json' },
+            { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] }
+        ]);
+        expect(JSON.parse(files['Result.schema.json']).anyOf).to.deep.equal([
+            {
+                anyOf: [
+                    { allOf: [{ $ref: 'Tag.schema.json' }, { properties: { kind: { const: 'tag' } }, required: ['kind'] }] },
+                    { allOf: [{ $ref: 'Element.schema.json' }, { }] }
+                ]
+            },
+            { type: 'null' }
+        ]);
+    });
+
+});
@@ -0,0 +1,243 @@
+import { ModelRenderer } from './renderer';
+import { ModelMap, ObjectProperty, ParsedMeshRAML, PropertyDefinition } from '../interfaces';
+import { OutputFiles } from '../plugins';
+import { unhandledCase } from '../utils/unhandled-case';
+
+/** Keywords of parsed properties which are valid JSON schema keywords and copied as-is. */
+const copiedKeywords = ['description', 'format', 'pattern', 'minimum', 'maximum',
+    'minLength', 'maxLength', 'minItems', 'maxItems'];
+
+const metaSchemas = {
+    'draft-07': 'http://json-schema.org/draft-07/schema#',
+    '2020-12': 'https://json-schema.org/draft/2020-12/schema'
+};
+
+export const defaultOptions = {
+    /** Version of the JSON schema output, "draft-07" or "2020-12" */
+    draft: 'draft-07' as keyof typeof metaSchemas,
+    /** Prepended to the file name of a model to create its `$id`, e.g. "https://example.com/schemas/" */
+    baseUri: '',
+    /** Appended to the model name to create its file name. */
+    fileExtension: '.schema.json',
+    indentation: '  '
+};
+export type Options = typeof defaultOptions;
+
+/** A JSON schema object as rendered to the output. */
+export interface JsonSchema {
+    [keyword: string]: any;
+}
+
+/**
+ * Renders the request/response models as JSON schema, e.g. to validate payloads with ajv.
+ * `renderFiles` renders one file per model with `$id` and `$ref`s to the files of other models,
+ * `renderAll` renders a single document with all models as definitions.
+ */
+export class JsonSchemaRenderer implements ModelRenderer {
+
+    public options: Options;
+
+    /** Objects which are currently converted, used to stop at inline objects which contain themselves. */
+    protected conversionStack: PropertyDefinition[] = [];
+
+    constructor(options?: Partial<Options>) {
+        this.options = { ...defaultOptions, ...(options || {}) };
+    }
+
+    /** Render all models in a single schema document, which references them as `#/definitions/Name` (`#/$defs/Name` in 2020-12). */
+    async renderAll(raml: ParsedMeshRAML): Promise<string> {
+        const definitionsKey = this.options.draft === 'draft-07' ? 'definitions' : '$defs';
+        const formatRef = (id: string) => `#/${definitionsKey}/${this.generateModelName(id)}`;
+
+        const definitions: { [name: string]: JsonSchema } = {};
+        for (let id of Object.keys(raml.models)) {
+            definitions[this.generateModelName(id)] = this.convertModel(raml.models[id], raml.models, formatRef);
+        }
+
+        const document: JsonSchema = { $schema: metaSchemas[this.options.draft] };
+        if (this.options.baseUri) {
+            document.$id = this.options.baseUri;
+        }
+        document[definitionsKey] = definitions;
+        return this.formatJson(document);
+    }
+
+    /** Render a schema file for every model, by file name, e.g. "UserResponse.schema.json". */
+    async renderFiles(raml: ParsedMeshRAML): Promise<OutputFiles> {
+        const formatRef = (id: string) => this.generateFileName(id);
+
+        const files: OutputFiles = {};
+        for (let id of Object.keys(raml.models)) {
+            const fileName = this.generateFileName(id);
+            const schema = Object.assign({
+                $schema: metaSchemas[this.options.draft],
+                $id: this.options.baseUri + fileName,
+                title: this.generateModelName(id)
+            }, this.convertModel(raml.models[id], raml.models, formatRef));
+            files[fileName] = this.formatJson(schema);
+        }
+        return files;
+    }
+
+    /** Returns the short name of a model, e.g. "urn:jsonschema:com:gentics:mesh:core:rest:user:UserResponse" => "UserResponse" */
+    protected generateModelName(schemaRef: string): string {
+        return schemaRef.replace(/^urn:jsonschema:([a-z]+:)*/, '');
+    }
+
+    protected generateFileName(schemaRef: string): string {
+        return this.generateModelName(schemaRef) + this.options.fileExtension;
+    }
+
+    /**
+     * Converts a model to a JSON schema. Models which extend other models reference them via `allOf`
+     * and only contain the properties they do not inherit unchanged.
+     */
+    protected convertModel(model: PropertyDefinition, models: ModelMap, formatRef: (id: string) => string): JsonSchema {
+        if (model.type !== 'object' || model.$ref) {
+            return this.convertProperty(model, formatRef);
+        }
+
+        const parents = (model.extends || [])
+            .map(parentId => models[parentId])
+            .filter(parent => !!parent && parent.type === 'object') as ObjectProperty[];
+        const ownProperties: ObjectProperty['properties'] = {};
+        for (let key of Object.keys(model.properties || {})) {
+            if (!parents.some(parent => parent.properties[key] === model.properties[key])) {
+                ownProperties[key] = model.properties[key];
+            }
+        }
+
+        const schema = this.convertObject(Object.assign({}, model, { properties: ownProperties }), formatRef);
+        if (!parents.length) {
+            return schema;
+        }
+
+        const { description } = schema;
+        delete schema.description;
+        const result: JsonSchema = {
+            allOf: [...parents.map(parent => ({ $ref: formatRef(parent.id) })), schema]
+        };
+        if (description) {
+            result.description = description;
+        }
+        return result;
+    }
+
+    /** Converts a property to a JSON schema, named models are referenced via `formatRef`. */
+    protected convertProperty(prop: PropertyDefinition, formatRef: (id: string) => string): JsonSchema {
+        let schema: JsonSchema;
+        switch (prop.type) {
+            case 'any':
+                schema = {};
+                break;
+
+            case 'boolean':
+            case 'integer':
+            case 'number':
+            case 'string':
+                schema = { type: prop.type };
+                if (prop.enum && prop.enum.length) {
+                    schema.enum = prop.enum.slice();
+                }
+                break;
+
+            case 'array':
+                schema = { type: 'array', items: this.convertProperty(prop.items, formatRef) };
+                break;
+
+            case 'object':
+                const id = prop.$ref || prop.id;
+                if (id) {
+                    schema = { $ref: formatRef(id) };
+                } else if (this.conversionStack.indexOf(prop) >= 0) {
+                    schema = {};
+                } else {
+                    this.conversionStack.push(prop);
+                    try {
+                        schema = this.convertObject(prop, formatRef);
+                    } finally {
+                        this.conversionStack.pop();
+                    }
+                }
+                break;
+
+            case 'union':
+                schema = {
+                    anyOf: prop.variants.map((variant, index) => {
+                        const variantSchema = this.convertProperty(variant, formatRef);
+                        const value = prop.discriminator && prop.discriminatorValues && prop.discriminatorValues[index];
+                        if (value === undefined) {
+                            return variantSchema;
+                        }
+                        // Variants which do not declare their discriminator value themselves
+                        return {
+                            allOf: [
+                                variantSchema,
+                                { properties: { [prop.discriminator!]: { const: value } }, required: [prop.discriminator] }
+                            ]
+                        };
+                    })
+                };
+                break;
+
+            case 'intersection':
+                schema = { allOf: prop.members.map(member => this.convertProperty(member, formatRef)) };
+                break;
+
+            default:
+                return unhandledCase(prop);
+        }
+
+        for (let keyword of copiedKeywords) {
+            const value = (prop as any)[keyword];
+            if (value !== undefined && !schema.$ref) {
+                schema[keyword] = value;
+            }
+        }
+        if (prop.example !== undefined && !schema.$ref) {
+            schema.examples = [prop.example];
+        }
+        return prop.nullable ? this.makeNullable(schema) : schema;
+    }
+
+    /** Converts an object with the `required` flags of its properties to a `required` array. */
+    protected convertObject(prop: ObjectProperty, formatRef: (id: string) => string): JsonSchema {
+        const schema: JsonSchema = { type: 'object' };
+        if (prop.description) {
+            schema.description = prop.description;
+        }
+
+        const keys = Object.keys(prop.properties || {});
+        if (keys.length) {
+            schema.properties = {};
+            for (let key of keys) {
+                schema.properties[key] = this.convertProperty(prop.properties[key], formatRef);
+            }
+        }
+
+        const required = keys.filter(key => prop.properties[key].required);
+        if (required.length) {
+            schema.required = required;
+        }
+        if (prop.additionalProperties) {
+            schema.additionalProperties = this.convertProperty(prop.additionalProperties, formatRef);
+        }
+        return schema;
+    }
+
+    /** Allows `null` as value of a schema, e.g. `{ "type": ["string", "null"] }` */
+    protected makeNullable(schema: JsonSchema): JsonSchema {
+        if (typeof schema.type === 'string' && !schema.$ref) {
+            const result = Object.assign({}, schema, { type: [schema.type, 'null'] });
+            if (result.enum) {
+                result.enum = [...result.enum, null];
+            }
+            return result;
+        }
+        return { anyOf: [schema, { type: 'null' }] };
+    }
+
+    protected formatJson(schema: JsonSchema): string {
+        return JSON.stringify(schema, undefined, this.options.indentation) + '\n';
+    }
+}
@@ -1,7 +1,10 @@
 import { ParsedMeshRAML } from '../interfaces';
+import { OutputFiles } from '../plugins';
 
 export interface ModelRenderer {
     renderAll(raml: ParsedMeshRAML): Promise<string>;
+    /** Renders the models to multiple files by their name, used when generating into a directory. */
+    renderFiles?(raml: ParsedMeshRAML): Promise<OutputFiles>;
     renderRequestModels?(raml: ParsedMeshRAML): Promise<string>;
     renderResponseModels?(raml: ParsedMeshRAML): Promise<string>;
 }
@@ -214,6 +214,590 @@ describe('TypescriptModelRenderer', () => {
         `);
     });
 
+    describe('generic list responses', () => {
+
+        const pagingMetaInfo: PropertyDefinition = {
+            type: 'object',
+            $ref: 'urn:jsonschema:com:gentics:mesh:core:rest:common:PagingMetaInfo',
+            required: true,
+            description: 'Paging information of the list result.'
+        } as ObjectProperty;
+
+        const createListModel = (id: string, itemRef: string): ObjectProperty => ({
+            type: 'object',
+            id,
+            properties: {
+                data: {
+                    type: 'array',
+                    required: true,
+                    description: 'Array which contains the found elements.',
+                    items: { type: 'object', $ref: itemRef } as ObjectProperty
+                },
+                _metainfo: pagingMetaInfo
+            }
+        });
+
+        const models: ModelMap = {
+            UserListResponse: createListModel('UserListResponse', 'UserResponse'),
+            GroupListResponse: createListModel('GroupListResponse', 'GroupResponse'),
+            UserResponse: {
+                type: 'object',
+                id: 'UserResponse',
+                properties: {
+                    uuid: { type: 'string', required: true }
+                }
+            }
+        };
+
+        it('renders paged lists as aliases of a generic interface with emitGenericListResponse', async () => {
+            renderer.options.emitGenericListResponse = true;
+            const result = await renderer.generateInterfaces({ models, endpoints: [] } as any, () => true);
+            expect(result).to.equal(unindent `
+                /** A paged list of items, returned by all list endpoints. */
+                export interface ListResponse<T> {
+                    /** Paging information of the list result. */
+                    _metainfo: PagingMetaInfo;
+                    /** Array which contains the found elements. */
+                    data: T[];
+                }
+
+                export type GroupListResponse = ListResponse<GroupResponse>;
+
+                export type UserListResponse = ListResponse<UserResponse>;
+
+                export interface UserResponse {
+                    uuid: string;
+                }
+
+            `);
+        });
+
+        it('renders lists with a different shape as interface', async () => {
+            renderer.options.emitGenericListResponse = true;
+            renderer.options.listResponseInterface = 'PagedList';
+            const otherModels: ModelMap = {
+                UserListResponse: models['UserListResponse'],
+                TagFamilyList: {
+                    type: 'object',
+                    id: 'TagFamilyList',
+                    properties: {
+                        data: { type: 'array', required: true, items: { type: 'string' } },
+                        _metainfo: { type: 'object', $ref: 'TagPagingInfo', required: true } as ObjectProperty
+                    }
+                }
+            };
+            const result = await renderer.generateInterfaces({ models: otherModels, endpoints: [] } as any, () => true);
+            expect(result).to.contain('export interface PagedList<T> {');
+            expect(result).to.contain('export type UserListResponse = PagedList<UserResponse>;');
+            expect(result).to.contain('export interface TagFamilyList {');
+        });
+
+        it('renders every list as interface by default', async () => {
+            const result = await renderer.generateInterfaces({ models, endpoints: [] } as any, () => true);
+            expect(result).not.to.contain('ListResponse<');
+            expect(result).to.contain('export interface UserListResponse {');
+        });
+
+    });
+
+    describe('type guards', () => {
+
+        const models: ModelMap = {
+            UserResponse: {
+                type: 'object',
+                id: 'UserResponse',
+                properties: {
+                    uuid: { type: 'string', required: true },
+                    age: { type: 'integer', required: false },
+                    role: { type: 'string', required: true, enum: ['admin', 'editor'] },
+                    groups: {
+                        type: 'array',
+                        required: true,
+                        items: { type: 'object', $ref: 'GroupReference' } as ObjectProperty
+                    },
+                    avatar: { type: 'string', required: false, nullable: true },
+                    'x-custom': { type: 'any', required: true },
+                    settings: {
+                        type: 'object',
+                        required: true,
+                        properties: {},
+                        additionalProperties: { type: 'array', items: { type: 'boolean' } }
+                    } as any
+                }
+            },
+            GroupReference: {
+                type: 'object',
+                id: 'GroupReference',
+                properties: {
+                    name: { type: 'string', required: true },
+                    parent: {
+                        type: 'union',
+                        required: false,
+                        variants: [{ type: 'object', $ref: 'GroupReference' } as ObjectProperty, { type: 'string' }]
+                    }
+                }
+            }
+        };
+
+        it('renders a type guard after every interface with emitTypeGuards', async () => {
+            renderer.options.emitTypeGuards = true;
+            const result = await renderer.generateInterfaces({ models, endpoints: [] } as any, () => true);
+            expect(result).to.contain(unindent `
+                /** Checks if a value is a GroupReference */
+                export function isGroupReference(value: any): value is GroupReference {
+                    return typeof value === 'object' && value !== null
+                        && typeof value.name === 'string'
+                        && (value.parent === undefined || (isGroupReference(value.parent) || typeof value.parent === 'string'));
+                }
+            `);
+            expect(result).to.contain(unindent `
+                /** Checks if a value is a UserResponse */
+                export function isUserResponse(value: any): value is UserResponse {
+                    return typeof value === 'object' && value !== null
+                        && (value.age === undefined || (typeof value.age === 'number' && value.age % 1 === 0))
+                        && (value.avatar === undefined || (value.avatar === null || typeof value.avatar === 'string'))
+                        && (Array.isArray(value.groups) && value.groups.every((item: any) => isGroupReference(item)))
+                        && ['admin', 'editor'].indexOf(value.role) >= 0
+                        && (typeof value.settings === 'object' && value.settings !== null && Object.keys(value.settings).every(key => Array.isArray(value.settings[key]) && value.settings[key].every((item2: any) => typeof item2 === 'boolean')))
+                        && typeof value.uuid === 'string';
+                }
+            `);
+        });
+
+        it('checks inline models which are rendered as object literals by their properties', async () => {
+            renderer.options.emitTypeGuards = true;
+            renderer.options.emitInlineModelsAsLiterals = true;
+            const inlineModels: ModelMap = {
+                NodeResponse: {
+                    type: 'object',
+                    id: 'NodeResponse',
+                    properties: {
+                        schema: { type: 'object', $ref: 'NodeResponseSchema', required: true } as ObjectProperty
+                    }
+                },
+                NodeResponseSchema: {
+                    type: 'object',
+                    id: 'NodeResponseSchema',
+                    inline: true,
+                    properties: {
+                        name: { type: 'string', required: true }
+                    }
+                }
+            };
+            const result = await renderer.generateInterfaces({ models: inlineModels, endpoints: [] } as any, () => true);
+            expect(result).to.contain(
+                `&& (typeof value.schema === 'object' && value.schema !== null && typeof value.schema.name === 'string');`);
+            expect(result).not.to.contain('isNodeResponseSchema');
+        });
+
+        it('renders no type guards by default', async () => {
+            const result = await renderer.generateInterfaces({ models, endpoints: [] } as any, () => true);
+            expect(result).not.to.contain('function');
+        });
+
+    });
+
+    describe('inline models', () => {
+
+        const models: ModelMap = {
+            NodeResponse: {
+                type: 'object',
+                id: 'NodeResponse',
+                properties: {
+                    parentNode: {
+                        type: 'object',
+                        id: 'NodeResponseParentNode',
+                        inline: true,
+                        required: true,
+                        properties: {
+                            uuid: { type: 'string', required: true }
+                        }
+                    } as any
+                }
+            }
+        };
+        models['NodeResponseParentNode'] = (models['NodeResponse'] as ObjectProperty).properties.parentNode;
+
+        it('renders inline models with generated ids as interfaces', async () => {
+            const result = await renderer.renderAll({ baseUri: '', endpoints: [], models, version: '0.8' });
+            expect(result).to.equal(unindent `
+                export interface NodeResponse {
+                    parentNode: NodeResponseParentNode;
+                }
+
+                export interface NodeResponseParentNode {
+                    uuid: string;
+                }
+
+            `);
+        });
+
+        it('renders inline models as object literals when set in options', async () => {
+            renderer.options.emitInlineModelsAsLiterals = true;
+            const result = await renderer.renderAll({ baseUri: '', endpoints: [], models, version: '0.8' });
+            expect(result).to.equal(unindent `
+                export interface NodeResponse {
+                    parentNode: {
+                        uuid: string;
+                    };
+                }
+
+            `);
+        });
+
+        it('renders recursive inline models as interfaces when literals are set in options', async () => {
+            renderer.options.emitInlineModelsAsLiterals = true;
+            const navigationElement: ObjectProperty = {
+                type: 'object',
+                id: 'NavigationElement',
+                inline: true,
+                recursive: true,
+                properties: {}
+            };
+            navigationElement.properties.children = { type: 'array', required: false, items: navigationElement };
+            const result = await renderer.renderAll({
+                baseUri: '',
+                endpoints: [],
+                models: {
+                    NavigationResponse: {
+                        type: 'object',
+                        id: 'NavigationResponse',
+                        properties: { root: Object.assign({ required: true }, navigationElement) }
+                    },
+                    NavigationElement: navigationElement
+                },
+                version: '0.8'
+            });
+            expect(result).to.equal(unindent `
+                export interface NavigationElement {
+                    children?: NavigationElement[];
+                }
+
+                export interface NavigationResponse {
+                    root: NavigationElement;
+                }
+
+            `);
+        });
+
+        it('renders objects without id as object literals', async () => {
+            const result = await renderer.renderAll({
+                baseUri: '',
+                endpoints: [],
+                models: {
+                    NodeResponse: {
+                        type: 'object',
+                        id: 'NodeResponse',
+                        properties: {
+                            parentNode: {
+                                type: 'object',
+                                required: false,
+                                properties: {
+                                    uuid: { type: 'string', required: true },
+                                    project: {
+                                        type: 'object',
+                                        required: true,
+                                        properties: {
+                                            name: { type: 'string', required: true }
+                                        }
+                                    }
+                                }
+                            } as any
+                        }
+                    }
+                },
+                version: '0.8'
+            });
+            expect(result).to.equal(unindent `
+                export interface NodeResponse {
+                    parentNode?: {
+                        project: {
+                            name: string;
+                        };
+                        uuid: string;
+                    };
+                }
+
+            `);
+        });
+
+    });
+
+    it('renders enums as union of literal types', async () => {
+        const models: ModelMap = {
+            'urn:jsonschema:com:gentics:mesh:core:rest:job:JobResponse': {
+                type: 'object',
+                id: 'urn:jsonschema:com:gentics:mesh:core:rest:job:JobResponse',
+                properties: {
+                    status: {
+                        type: 'string',
+                        required: true,
+                        enum: ['QUEUED', 'RUNNING', 'COMPLETED', 'FAILED']
+                    },
+                    permissions: {
+                        type: 'array',
+                        required: false,
+                        items: {
+                            type: 'string',
+                            enum: ['READ', 'UPDATE']
+                        }
+                    }
+                }
+            }
+        };
+
+        const result = await renderer.renderAll({
+            baseUri: '',
+            endpoints: [],
+            models,
+            version: '0.8'
+        });
+        expect(result).to.equal(unindent `
+            export interface JobResponse {
+                permissions?: Array<'READ' | 'UPDATE'>;
+                status: 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+            }
+
+        `);
+    });
+
+    it('renders models which extend other models with their own properties', async () => {
+        const uuid: PropertyDefinition = { type: 'string', required: true };
+        const models: ModelMap = {
+            NodeReference: {
+                type: 'object',
+                id: 'NodeReference',
+                properties: { uuid }
+            },
+            NodeResponse: {
+                type: 'object',
+                id: 'NodeResponse',
+                extends: ['NodeReference'],
+                properties: {
+                    uuid,
+                    language: { type: 'string', required: false }
+                }
+            }
+        };
+
+        const result = await renderer.renderAll({ baseUri: '', endpoints: [], models, version: '0.8' });
+        expect(result).to.equal(unindent `
+            export interface NodeReference {
+                uuid: string;
+            }
+
+            export interface NodeResponse extends NodeReference {
+                language?: string;
+            }
+
+        `);
+    });
+
+    it('renders nullable properties independently from optional properties', async () => {
+        const models: ModelMap = {
+            NodeResponse: {
+                type: 'object',
+                id: 'NodeResponse',
+                properties: {
+                    editor: { type: 'string', required: true, nullable: true },
+                    parentNode: { type: 'object', $ref: 'NodeResponse', required: false, nullable: true } as ObjectProperty,
+                    tags: {
+                        type: 'array',
+                        required: false,
+                        items: { type: 'string', nullable: true }
+                    }
+                }
+            }
+        };
+
+        const result = await renderer.renderAll({ baseUri: '', endpoints: [], models, version: '0.8' });
+        expect(result).to.equal(unindent `
+            export interface NodeResponse {
+                editor: string | null;
+                parentNode?: NodeResponse | null;
+                tags?: Array<string | null>;
+            }
+
+        `);
+    });
+
+    it('renders unions and intersections', async () => {
+        const models: ModelMap = {
+            Node: {
+                type: 'object',
+                id: 'Node',
+                properties: {
+                    animal: {
+                        type: 'union',
+                        required: true,
+                        variants: [
+                            { type: 'object', $ref: 'Cat' } as ObjectProperty,
+                            { type: 'object', $ref: 'Dog' } as ObjectProperty
+                        ],
+                        discriminator: 'petType',
+                        discriminatorValues: ['cat', undefined]
+                    },
+                    fields: {
+                        type: 'array',
+                        required: false,
+                        items: {
+                            type: 'union',
+                            variants: [{ type: 'string' }, { type: 'number' }]
+                        }
+                    },
+                    named: {
+                        type: 'intersection',
+                        required: false,
+                        members: [
+                            { type: 'object', $ref: 'Cat' } as ObjectProperty,
+                            { type: 'union', variants: [{ type: 'string' }, { type: 'number' }] }
+                        ]
+                    }
+                }
+            }
+        };
+
+        const result = await renderer.renderAll({ baseUri: '', endpoints: [], models, version: '0.8' });
+        expect(result).to.equal(unindent `
+            export interface Node {
+                animal: Cat & { petType: 'cat' } | Dog;
+                fields?: Array<string | number>;
+                named?: Cat & (string | number);
+            }
+
+        `);
+    });
+
+    it('renders enums as named type aliases when set in options', async () => {
+        const models: ModelMap = {
+            'urn:jsonschema:com:gentics:mesh:core:rest:job:JobResponse': {
+                type: 'object',
+                id: 'urn:jsonschema:com:gentics:mesh:core:rest:job:JobResponse',
+                properties: {
+                    status: {
+                        type: 'string',
+                        required: true,
+                        enum: ['QUEUED', 'COMPLETED']
+                    },
+                    permissions: {
+                        type: 'array',
+                        required: false,
+                        items: {
+                            type: 'string',
+                            enum: ['READ', 'UPDATE']
+                        }
+                    }
+                }
+            }
+        };
+
+        renderer.options.emitEnumsAsTypes = true;
+        const result = await renderer.renderAll({
+            baseUri: '',
+            endpoints: [],
+            models,
+            version: '0.8'
+        });
+        expect(result).to.equal(unindent `
+            export type JobResponsePermissions = 'READ' | 'UPDATE';
+
+            export type JobResponseStatus = 'QUEUED' | 'COMPLETED';
+
+            export interface JobResponse {
+                permissions?: JobResponsePermissions[];
+                status: JobResponseStatus;
+            }
+
+        `);
+    });
+
+    it('renders format, pattern and length constraints as jsdoc tags', async () => {
+        const models: ModelMap = {
+            'urn:jsonschema:com:gentics:mesh:core:rest:user:UserCreateRequest': {
+                type: 'object',
+                id: 'urn:jsonschema:com:gentics:mesh:core:rest:user:UserCreateRequest',
+                properties: {
+                    emailAddress: {
+                        type: 'string',
+                        description: 'Email address of the user',
+                        format: 'email',
+                        maxLength: 255
+                    },
+                    groups: {
+                        type: 'array',
+                        minItems: 1,
+                        items: {
+                            type: 'string'
+                        }
+                    },
+                    username: {
+                        type: 'string',
+                        required: true,
+                        pattern: '^[a-z]*/[a-z]*$',
+                        minLength: 3
+                    }
+                }
+            }
+        };
+
+        const result = await renderer.renderAll({
+            baseUri: '',
+            endpoints: [],
+            models,
+            version: '0.8'
+        });
+        expect(result).to.equal(unindent `
+            export interface UserCreateRequest {
+                /**
+                 * Email address of the user
+                 * @format email
+                 * @maxLength 255
+                 */
+                emailAddress?: string;
+                /**
+                 * @minItems 1
+                 */
+                groups?: string[];
+                /**
+                 * @pattern ^[a-z]*\\/[a-z]*$
+                 * @minLength 3
+                 */
+                username: string;
+            }
+
+        `);
+    });
+
+    it('does not render constraints when disabled in options', async () => {
+        const models: ModelMap = {
+            'urn:jsonschema:com:gentics:mesh:core:rest:user:UserResponse': {
+                type: 'object',
+                id: 'urn:jsonschema:com:gentics:mesh:core:rest:user:UserResponse',
+                properties: {
+                    created: {
+                        type: 'string',
+                        required: true,
+                        format: 'date-time'
+                    }
+                }
+            }
+        };
+
+        renderer.options.emitConstraintTags = false;
+        const result = await renderer.renderAll({
+            baseUri: '',
+            endpoints: [],
+            models,
+            version: '0.8'
+        });
+        expect(result).to.equal(unindent `
+            export interface UserResponse {
+                created: string;
+            }
+
+        `);
+    });
+
     describe('jsdoc comments', () => {
 
         let personModel: ObjectProperty;
@@ -495,6 +1079,129 @@ describe('TypescriptModelRenderer', () => {
             `);
         });
 
+        it('outputs request and response headers', async () => {
+            const input: ParsedMeshRAML = {
+                baseUri: '/api/v1',
+                endpoints: [{
+                    description: 'Load the user.',
+                    method: 'GET',
+                    url: '/users/{userUuid}',
+                    urlParameters: {
+                        userUuid: { description: '', type: 'string', required: true, repeat: false }
+                    },
+                    headers: {
+                        'If-None-Match': {
+                            description: 'ETag of the cached response.',
+                            type: 'string',
+                            required: false,
+                            repeat: false
+                        }
+                    },
+                    responses: {
+                        200: {
+                            description: 'Loaded user.',
+                            headers: {
+                                ETag: { description: '', type: 'string', required: true, repeat: false }
+                            },
+                            responseBodySchema: { type: 'object', $ref: 'UserResponse' } as any
+                        }
+                    }
+                }],
+                models: { },
+                version: '0.9.1'
+            };
+
+            const result = await renderer.generateEndpointList(input);
+
+            expect(result).to.equal(unindent `
+                /** List of all API endpoints and their types */
+                export interface ApiEndpoints {
+                    GET: {
+                        /** Load the user. */
+                        '/users/{userUuid}': {
+                            request: {
+                                urlParams: {
+                                    userUuid: string;
+                                };
+                                queryParams?: { };
+                                headers?: {
+                                    /** ETag of the cached response. */
+                                    'If-None-Match'?: string;
+                                };
+                                body?: undefined;
+                            };
+                            responseType: UserResponse;
+                            responseTypes: {
+                                /** Loaded user. */
+                                200: UserResponse;
+                            };
+                            responseHeaders: {
+                                200: {
+                                    ETag: string;
+                                };
+                            };
+                        };
+                    };
+                    POST: { };
+                    PATCH: { };
+                    PUT: { };
+                    DELETE: { };
+                }
+
+            `);
+        });
+
+        it('outputs binary and text bodies by their media type', async () => {
+            const input: ParsedMeshRAML = {
+                baseUri: '/api/v1',
+                endpoints: [{
+                    description: 'Upload or download a binary field.',
+                    method: 'POST',
+                    url: '/nodes/{nodeUuid}/binary',
+                    urlParameters: {
+                        nodeUuid: { description: '', type: 'string', required: true, repeat: false }
+                    },
+                    requestBody: { mimeType: 'application/octet-stream' },
+                    requestBodies: {
+                        'application/octet-stream': { mimeType: 'application/octet-stream' },
+                        'text/plain': { mimeType: 'text/plain' }
+                    },
+                    responses: {
+                        200: {
+                            description: 'The binary data.',
+                            bodies: {
+                                'image/png': { mimeType: 'image/png' },
+                                'application/pdf': { mimeType: 'application/pdf' }
+                            }
+                        },
+                        400: {
+                            description: 'Invalid request.',
+                            bodies: {
+                                'text/plain': { mimeType: 'text/plain' }
+                            }
+                        }
+                    }
+                }],
+                models: { },
+                version: '0.9.1'
+            };
+
+            renderer.options.emitBinaryAs = 'ArrayBuffer';
+            const result = await renderer.generateEndpointList(input);
+
+            expect(result).to.contain([
+                '                body: ArrayBuffer | string;',
+                '            };',
+                '            responseType: ArrayBuffer | string;',
+                '            responseTypes: {',
+                '                /** The binary data. */',
+                '                200: ArrayBuffer;',
+                '                /** Invalid request. */',
+                '                400: string;',
+                '            };'
+            ].join('\n'));
+        });
+
         it('works for 204 (No Content) responses', async () => {
             const input: ParsedMeshRAML = {
                 baseUri: '/api/v1',
@@ -762,6 +1469,36 @@ describe('TypescriptModelRenderer', () => {
             `);
         });
 
+        it('renders parameters with allowed values as union of literal types', () => {
+            const paramMap: QueryParameterMap = {
+                perms: {
+                    description: 'Permissions to check',
+                    enum: ['read', 'update'],
+                    repeat: true,
+                    required: false,
+                    type: 'string'
+                },
+                sortOrder: {
+                    description: 'Sort order',
+                    enum: ['asc', 'desc'],
+                    repeat: false,
+                    required: false,
+                    type: 'string'
+                }
+            };
+
+            const output = renderer['formatParameters'](paramMap, 'resultKey').join('\n');
+
+            expect(output).to.equal(unindent `
+                resultKey?: {
+                    /** Permissions to check */
+                    perms?: 'read' | 'update' | Array<'read' | 'update'>;
+                    /** Sort order */
+                    sortOrder?: 'asc' | 'desc';
+                };
+            `);
+        });
+
         it('renders examples and default values of boolean properties correctly', () => {
             const paramMap: QueryParameterMap = {
                 first: {
@@ -1151,6 +1888,23 @@ describe('TypescriptModelRenderer', () => {
             ]);
         });
 
+        it('outputs tags after the description and before examples', () => {
+            const jsdoc = renderer.generateJsDoc({
+                description: 'Some description',
+                example: '"2019-01-01T00:00:00Z"',
+                tags: ['@format date-time']
+            });
+            expect(jsdoc).to.deep.equal([
+                '/**',
+                ' * Some description',
+                ' * @format date-time',
+                ' *',
+                ' * @example',
+                ' * "2019-01-01T00:00:00Z"',
+                ' */'
+            ]);
+        });
+
     });
 
     describe('sortEndpointsForJsDoc()', () => {
@@ -1213,13 +1967,14 @@ class TypescriptModelRendererExposeProtectedProperties extends TypescriptModelRe
         return super.endpointsWithResponseType(schema, endpoints);
     }
 
-    generateJsDoc({ description, example, defaultValue, responses }: {
+    generateJsDoc({ description, example, defaultValue, responses, tags }: {
                 description?: string,
                 example?: string
                 defaultValue?: any,
-                responses?: CombinedResponseInfo[]
+                responses?: CombinedResponseInfo[],
+                tags?: string[]
             }) {
-        return super.generateJsDoc({ description, example, defaultValue, responses });
+        return super.generateJsDoc({ description, example, defaultValue, responses, tags });
     }
 
     sortEndpointsForJsDoc(endpoints: CombinedResponseInfo[]): CombinedResponseInfo[] {
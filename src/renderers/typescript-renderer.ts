@@ -1,20 +1,29 @@
 import { ModelRenderer } from './renderer';
-import { ParsedMeshRAML, ModelMap, Endpoint, ObjectProperty, PropertyDefinition, CombinedResponseInfo, Parameter } from '../interfaces';
+import { ArrayProperty, ParsedMeshRAML, ModelMap, Endpoint, ObjectProperty, PropertyDefinition, CombinedResponseInfo, Parameter, RequestBody } from '../interfaces';
 import { unindent } from '../utils/unindent';
 import { formatAsObjectKey, formatValueAsPOJO } from '../utils/format-as-pojo';
+import { jsonMediaType, textMediaType } from '../utils/media-types';
+import { pascalCase } from '../utils/pascal-case';
 import { unhandledCase } from '../utils/unhandled-case';
 import { wordWrap } from '../utils/word-wrap';
 
 export const defaultOptions = {
     addEndpointList: false,
+    emitBinaryAs: 'Blob',
+    emitConstraintTags: true,
+    emitEnumsAsTypes: false,
+    emitGenericListResponse: false,
+    emitInlineModelsAsLiterals: false,
     emitIntegerAs: 'Integer',
     emitInterfacesAsReadonly: false,
     emitRequestExamples: true,
     emitRequestURLs: false,
     emitResponseExamples: false,
+    emitTypeGuards: false,
     endpointInterface: 'ApiEndpoints',
     indentation: '    ',
     interfacePrefix: '',
+    listResponseInterface: 'ListResponse',
     interfaceSuffix: '',
     maxLineLength: 100,
     methodSortOrder: ['GET', 'POST', 'PATCH', 'PUT', 'DELETE'] as Array<'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE'>,
@@ -32,6 +41,15 @@ export class TypescriptModelRenderer implements ModelRenderer {
 
     public options: Options;
 
+    /** Object literals which are currently rendered, used to stop at objects which contain themselves. */
+    protected literalStack: ObjectProperty[] = [];
+
+    /** Ids of the models which are rendered as interface, which have a type guard when `emitTypeGuards` is set. */
+    protected guardedModels: string[] = [];
+
+    /** Inline objects whose type guard condition is currently rendered, used to stop at objects which contain themselves. */
+    protected guardStack: PropertyDefinition[] = [];
+
     constructor(options?: Partial<Options>) {
         this.options = { ...defaultOptions, ...(options || {}) };
     }
@@ -147,30 +165,27 @@ export class TypescriptModelRenderer implements ModelRenderer {
             ...this.formatParameters(endpoint.urlParameters, 'urlParams'),
             ...this.formatParameters(endpoint.queryParameters, 'queryParams')
         ];
+        if (endpoint.headers && Object.keys(endpoint.headers).length) {
+            requestLines.push(...this.formatParameters(endpoint.headers, 'headers'));
+        }
 
         const requestBody = endpoint.requestBody;
+        const requestBodies = endpoint.requestBodies || (requestBody ? { [requestBody.mimeType]: requestBody } : {});
 
         // Format request body interface
-        if (!requestBody) {
+        if (!Object.keys(requestBodies).length) {
             requestLines.push('body?: undefined;');
-        }
-        else if (!requestBody.schema) {
-            requestLines.push('body: any;');
         } else {
-            const optional = requestBody.schema.required === false;
-            const optionalText = optional ? '?' : '';
-            const valueText = await this.renderTypescriptPropertyDefinition(requestBody.schema);
-
-            if (valueText.indexOf('\n') < 0) {
-                requestLines.push('body' + optionalText + ': ' + valueText + ';');
-            } else {
-                const lines = valueText.split('\n');
-                requestLines.push(
-                    'body' + optionalText + ': ' + lines[0],
-                    ...lines.slice(1, lines.length - 1),
-                    lines[lines.length - 1] + ';'
-                );
+            const bodyTypes: string[] = [];
+            for (let mimeType of Object.keys(requestBodies)) {
+                const bodyType = await this.renderBodyType(requestBodies[mimeType]) || 'any';
+                if (bodyTypes.indexOf(bodyType) < 0) {
+                    bodyTypes.push(bodyType);
+                }
             }
+            const optional = !!requestBody && !!requestBody.schema && requestBody.schema.required === false;
+            const optionalText = optional ? '?' : '';
+            requestLines.push(...this.formatMultilineValue('body' + optionalText + ': ', bodyTypes.join(' | '), ';'));
         }
 
         const isOptional = (input?: { [k: string]: { required?: boolean } }) =>
@@ -185,13 +200,28 @@ export class TypescriptModelRenderer implements ModelRenderer {
         // Find all types that can be returned by the endpoint
         const allResponseTypes: string[] = [];
         const responseStatusLines: string[] = [];
+        const responseHeaderLines: string[] = [];
         let responsesWithMissingType = 0;
 
         for (let statusCode of Object.keys(endpoint.responses)) {
             const response = endpoint.responses[Number(statusCode)];
-            let responseType: string;
+            const bodyTypes: string[] = [];
             if (response.responseBodySchema) {
-                responseType = await this.renderTypescriptPropertyDefinition(response.responseBodySchema);
+                bodyTypes.push(await this.renderTypescriptPropertyDefinition(response.responseBodySchema));
+            }
+
+            // Binary and text responses like file downloads
+            const bodies = response.bodies || {};
+            for (let mimeType of Object.keys(bodies).filter(mimeType => !jsonMediaType.test(mimeType))) {
+                const bodyType = await this.renderBodyType(bodies[mimeType]);
+                if (bodyType && bodyTypes.indexOf(bodyType) < 0) {
+                    bodyTypes.push(bodyType);
+                }
+            }
+
+            let responseType: string;
+            if (bodyTypes.length) {
+                responseType = bodyTypes.join(' | ');
             } else if (statusCode === '204') {
                 responseType = 'undefined';
             } else {
@@ -203,7 +233,12 @@ export class TypescriptModelRenderer implements ModelRenderer {
                 allResponseTypes.push(responseType);
             }
             responseStatusLines.push(...this.generateJsDoc({ description: response.description }));
-            responseStatusLines.push(`${statusCode}: ${responseType};`);
+            responseStatusLines.push(...this.formatMultilineValue(statusCode + ': ', responseType, ';'));
+
+            if (response.headers && Object.keys(response.headers).length) {
+                const headersType = this.formatParameters(response.headers).join('\n');
+                responseHeaderLines.push(...this.formatMultilineValue(statusCode + ': ', headersType, ';'));
+            }
         }
 
         if (!Object.keys(endpoint.responses).length || responsesWithMissingType === allResponseTypes.length) {
@@ -215,16 +250,38 @@ export class TypescriptModelRenderer implements ModelRenderer {
             ]);
         } else {
             lines.push(...[
-                'responseType: ' + allResponseTypes.join(' | ') + ';',
+                ...this.formatMultilineValue('responseType: ', allResponseTypes.join(' | '), ';'),
                 'responseTypes: {',
                 ...this.indent(responseStatusLines),
                 '};'
             ]);
         }
 
+        if (responseHeaderLines.length) {
+            lines.push(
+                'responseHeaders: {',
+                ...this.indent(responseHeaderLines),
+                '};'
+            );
+        }
+
         return lines;
     }
 
+    /**
+     * Render the TypeScript type of a request or response body by its media type.
+     * Text bodies are rendered as string, binary bodies as the type set in the `emitBinaryAs` option.
+     * Returns undefined for JSON bodies without a schema.
+     */
+    protected async renderBodyType(body: RequestBody): Promise<string | undefined> {
+        if (jsonMediaType.test(body.mimeType) || body.mimeType === 'multipart/form-data') {
+            return body.schema ? this.renderTypescriptPropertyDefinition(body.schema) : undefined;
+        } else if (textMediaType.test(body.mimeType)) {
+            return 'string';
+        }
+        return this.options.emitBinaryAs;
+    }
+
     /** Formats url parameters / query parameters / form parameters as TypeScript interface. */
     protected formatParameters(paramMap: { [key: string]: Parameter } | undefined, resultKey?: string): string[] {
         if (!paramMap || Object.keys(paramMap).length === 0) {
@@ -266,14 +323,20 @@ export class TypescriptModelRenderer implements ModelRenderer {
                 const description = param.description;
                 const example = this.options.emitRequestExamples ? exampleText : '';
                 const keyText = formatAsObjectKey(paramName) + (param.required ? '': '?');
-                let typeText = param.repeat ? `${param.type} | ${param.type}[]` : param.type;
+                let typeText: string = param.repeat ? `${param.type} | ${param.type}[]` : param.type;
+                if (param.enum && param.enum.length) {
+                    const enumText = this.formatEnumAsUnion(param.enum);
+                    typeText = param.repeat ? `${enumText} | Array<${enumText}>` : enumText;
+                }
                 let jsdoc = this.generateJsDoc({ description, example, defaultValue });
 
                 if (param.type as any === 'file') {
                     typeText = 'File';
                 }
 
-                if (param.type === 'string' && param.example && param.example.indexOf('\n') >= 0) {
+                if (!jsdoc.length) {
+                    // No comment for parameters without description and example
+                } else if (param.type === 'string' && param.example && param.example.indexOf('\n') >= 0) {
                     jsdoc = jsdoc
                         .join('\n')
                         .replace(/ \*\n \* @example\n \* /g, ' * @example\n * ')
@@ -318,11 +381,28 @@ export class TypescriptModelRenderer implements ModelRenderer {
         }
 
         let lines: string[] = [];
+        this.guardedModels = modelNames.filter(modelRef => {
+            const model = models[modelRef];
+            return model.type === 'object' && !this.isRenderedAsLiteral(model) && filter(model, models);
+        });
+
+        // Paged list models are rendered as aliases of one generic interface
+        const listModels = this.options.emitGenericListResponse
+            ? this.findListResponses(models).filter(modelRef => filter(models[modelRef] as ObjectProperty, models))
+            : [];
+        if (listModels.length) {
+            lines.push(...await this.generateListResponseInterface(models[listModels[0]] as ObjectProperty));
+        }
 
         for (let modelRef of modelNames) {
             const model = models[modelRef];
 
-            if (model.type === 'object' && filter(model, models)) {
+            if (model.type === 'object' && this.isRenderedAsLiteral(model)) {
+                // Inline models are rendered as object literal where they are used
+                if (this.options.emitEnumsAsTypes && filter(model, models)) {
+                    lines.push(...this.generateEnumTypes(model.properties, this.generateModelName(modelRef)));
+                }
+            } else if (model.type === 'object' && filter(model, models)) {
                 let example = '';
                 if (this.options.emitResponseExamples) {
                     const responseExample = this.endpointsWithResponseType(model, endpoints)
@@ -337,14 +417,33 @@ export class TypescriptModelRenderer implements ModelRenderer {
 
                 const interfaceName = this.generateModelName(modelRef);
                 const jsDocLines = this.generateJsDoc({ description: model.description, example, responses });
-                const typescriptProperties = await this.renderTypescriptProperties(model.properties);
+                if (listModels.indexOf(modelRef) >= 0) {
+                    const itemType = await this.renderTypescriptPropertyDefinition((model.properties['data'] as ArrayProperty).items);
+                    lines.push(
+                        ...jsDocLines,
+                        ...this.formatMultilineValue(`export type ${interfaceName} = ${this.options.listResponseInterface}<`, itemType, '>;\n'),
+                        ...(this.options.emitTypeGuards ? this.generateTypeGuard(model, interfaceName, models) : [])
+                    );
+                    continue;
+                }
+
+                const ownProperties = this.getOwnProperties(model, models);
+                const typescriptProperties = await this.renderTypescriptProperties(ownProperties, interfaceName);
+                const enumTypes = this.options.emitEnumsAsTypes
+                    ? this.generateEnumTypes(ownProperties, interfaceName)
+                    : [];
+                const extendsText = model.extends && model.extends.length
+                    ? ' extends ' + model.extends.map(parentId => this.generateModelName(parentId)).join(', ')
+                    : '';
 
                 lines = [
                     ...lines,
+                    ...enumTypes,
                     ...jsDocLines,
-                    `export interface ${interfaceName} {`,
+                    `export interface ${interfaceName}${extendsText} {`,
                     ...typescriptProperties,
-                    `}\n`
+                    `}\n`,
+                    ...(this.options.emitTypeGuards ? this.generateTypeGuard(model, interfaceName, models) : [])
                 ];
             }
         }
@@ -352,6 +451,252 @@ export class TypescriptModelRenderer implements ModelRenderer {
         return lines.join('\n');
     }
 
+    /**
+     * Generate a function which checks if a value matches a model at runtime, e.g. `isUserResponse(value): value is UserResponse`.
+     * Used when the `emitTypeGuards` option is set.
+     */
+    protected generateTypeGuard(model: ObjectProperty, interfaceName: string, models: ModelMap): string[] {
+        const conditions = ['typeof value === \'object\' && value !== null'];
+        const keys = Object.keys(model.properties);
+        if (this.options.sortKeys) {
+            keys.sort();
+        }
+        for (let key of keys) {
+            const condition = this.renderPropertyCondition(model.properties[key], 'value' + this.formatPropertyAccess(key), models);
+            if (condition !== 'true') {
+                conditions.push(this.groupCondition(condition));
+            }
+        }
+
+        return [
+            `/** Checks if a value is a ${interfaceName} */`,
+            `export function ${this.generateTypeGuardName(interfaceName)}(value: any): value is ${interfaceName} {`,
+            ...this.indent(this.formatMultilineValue('return ', conditions.join('\n' + this.options.indentation + '&& '), ';')),
+            `}\n`
+        ];
+    }
+
+    /** Wraps a condition in parentheses if it combines multiple conditions. */
+    protected groupCondition(condition: string): string {
+        return / (&&|\|\|) /.test(condition) ? `(${condition})` : condition;
+    }
+
+    /** Returns the name of the type guard function of an interface, e.g. "UserResponse" => "isUserResponse" */
+    protected generateTypeGuardName(interfaceName: string): string {
+        return 'is' + interfaceName;
+    }
+
+    /** Returns the code to access a property, e.g. ".uuid" or "['content-type']" */
+    protected formatPropertyAccess(key: string): string {
+        const keyText = formatAsObjectKey(key);
+        return keyText === key ? '.' + key : '[' + keyText + ']';
+    }
+
+    /** Render the condition of a type guard for a property, which allows `undefined` for optional properties. */
+    protected renderPropertyCondition(prop: PropertyDefinition, valueText: string, models: ModelMap): string {
+        const condition = this.renderTypeCondition(prop, valueText, models, 1);
+        if (prop.required || condition === 'true') {
+            return condition;
+        }
+        return `${valueText} === undefined || ${this.groupCondition(condition)}`;
+    }
+
+    /**
+     * Render a condition which checks if a value matches a schema at runtime.
+     * Models with an interface are checked by their type guard, inline objects by their properties.
+     * @param depth Nesting depth of arrays and hashes, used to name the variables of their callbacks.
+     */
+    protected renderTypeCondition(prop: PropertyDefinition, valueText: string, models: ModelMap, depth: number): string {
+        const group = (condition: string) => this.groupCondition(condition);
+        const variable = (name: string) => depth > 1 ? name + depth : name;
+
+        if (prop.nullable) {
+            const nonNullable = Object.assign({}, prop, { nullable: false }) as PropertyDefinition;
+            const condition = this.renderTypeCondition(nonNullable, valueText, models, depth);
+            return condition === 'true' ? condition : `${valueText} === null || ${group(condition)}`;
+        }
+
+        switch (prop.type) {
+            case 'any':
+                return 'true';
+
+            case 'boolean':
+            case 'integer':
+            case 'number':
+            case 'string':
+                if (prop.enum && prop.enum.length) {
+                    return `[${prop.enum.map(value => formatValueAsPOJO(value)).join(', ')}].indexOf(${valueText}) >= 0`;
+                } else if (prop.type === 'integer') {
+                    return `typeof ${valueText} === 'number' && ${valueText} % 1 === 0`;
+                }
+                return `typeof ${valueText} === '${prop.type}'`;
+
+            case 'array':
+                const item = variable('item');
+                const itemCondition = this.renderTypeCondition(prop.items, item, models, depth + 1);
+                return itemCondition === 'true'
+                    ? `Array.isArray(${valueText})`
+                    : `Array.isArray(${valueText}) && ${valueText}.every((${item}: any) => ${itemCondition})`;
+
+            case 'object':
+                const modelRef = prop.$ref || prop.id;
+                if (modelRef && this.guardedModels.indexOf(modelRef) >= 0) {
+                    return `${this.generateTypeGuardName(this.generateModelName(modelRef))}(${valueText})`;
+                }
+
+                const model = modelRef && models[modelRef] ? models[modelRef] : prop;
+                if (model !== prop && model.type !== 'object') {
+                    return this.renderTypeCondition(model, valueText, models, depth);
+                } else if (model.type !== 'object' || this.guardStack.indexOf(model) >= 0) {
+                    return 'true';
+                }
+
+                this.guardStack.push(model);
+                try {
+                    const conditions = [`typeof ${valueText} === 'object' && ${valueText} !== null`];
+                    for (let key of Object.keys(model.properties || {})) {
+                        const condition = this.renderPropertyCondition(model.properties[key], valueText + this.formatPropertyAccess(key), models);
+                        if (condition !== 'true') {
+                            conditions.push(group(condition));
+                        }
+                    }
+                    if (model.additionalProperties) {
+                        const key = variable('key');
+                        const valueCondition = this.renderTypeCondition(model.additionalProperties, `${valueText}[${key}]`, models, depth + 1);
+                        if (valueCondition !== 'true') {
+                            conditions.push(`Object.keys(${valueText}).every(${key} => ${valueCondition})`);
+                        }
+                    }
+                    return conditions.join(' && ');
+                } finally {
+                    this.guardStack.pop();
+                }
+
+            case 'union':
+                const variantConditions = prop.variants.map(variant => this.renderTypeCondition(variant, valueText, models, depth));
+                return variantConditions.indexOf('true') >= 0 ? 'true' : variantConditions.map(group).join(' || ');
+
+            case 'intersection':
+                const memberConditions = prop.members
+                    .map(member => this.renderTypeCondition(member, valueText, models, depth))
+                    .filter(condition => condition !== 'true');
+                return memberConditions.length ? memberConditions.map(group).join(' && ') : 'true';
+
+            default:
+                return unhandledCase(prop);
+        }
+    }
+
+    /**
+     * Finds the models of paged lists, which only have a `data` array and `_metainfo`, e.g. `UserListResponse`.
+     * Only lists with the same `_metainfo` as the first one are returned, since they share one generic interface.
+     */
+    protected findListResponses(models: ModelMap): string[] {
+        const isListResponse = (model: PropertyDefinition): model is ObjectProperty =>
+            model.type === 'object' && !model.extends && !model.additionalProperties && !model.recursive && !!model.properties
+            && Object.keys(model.properties).sort().join() === '_metainfo,data'
+            && model.properties['data'].type === 'array';
+
+        const listModels = Object.keys(models).filter(modelRef => isListResponse(models[modelRef]));
+        if (!listModels.length) {
+            return [];
+        }
+
+        const shapeOf = (model: ObjectProperty) => {
+            const { data, _metainfo } = model.properties;
+            return JSON.stringify([!!data.required, data.description, _metainfo]);
+        };
+        const firstShape = shapeOf(models[listModels[0]] as ObjectProperty);
+        return listModels.filter(modelRef => shapeOf(models[modelRef] as ObjectProperty) === firstShape);
+    }
+
+    /** Generate the generic interface of paged lists, e.g. `ListResponse<T>`, with the `_metainfo` of a list model. */
+    protected async generateListResponseInterface(listModel: ObjectProperty): Promise<string[]> {
+        const { data, _metainfo } = listModel.properties;
+        const keys = ['data', '_metainfo'];
+        if (this.options.sortKeys) {
+            keys.sort();
+        }
+
+        const readonlyText = this.options.emitInterfacesAsReadonly ? 'readonly ' : '';
+        const propertyLines: string[] = [];
+        for (let key of keys) {
+            const prop = key === 'data' ? data : _metainfo;
+            if (prop.description) {
+                propertyLines.push(...this.generateJsDoc({ description: prop.description }));
+            }
+            const valueText = key === 'data' ? 'T[]' : await this.renderTypescriptPropertyDefinition(prop);
+            const separator = prop.required ? ': ' : '?: ';
+            propertyLines.push(...this.formatMultilineValue(readonlyText + key + separator, valueText, ';'));
+        }
+
+        return [
+            '/** A paged list of items, returned by all list endpoints. */',
+            `export interface ${this.options.listResponseInterface}<T> {`,
+            ...this.indent(propertyLines),
+            '}\n'
+        ];
+    }
+
+    /**
+     * Returns the properties of a model without the properties it inherits unchanged from the models it extends.
+     * The parser copies inherited properties by reference, overridden properties are kept.
+     */
+    protected getOwnProperties(model: ObjectProperty, models: ModelMap): { [name: string]: PropertyDefinition } {
+        const parents = (model.extends || [])
+            .map(parentId => models[parentId])
+            .filter(parent => !!parent && parent.type === 'object') as ObjectProperty[];
+
+        const ownProperties: { [name: string]: PropertyDefinition } = {};
+        for (let key of Object.keys(model.properties)) {
+            if (!parents.some(parent => parent.properties[key] === model.properties[key])) {
+                ownProperties[key] = model.properties[key];
+            }
+        }
+        return ownProperties;
+    }
+
+    /**
+     * Generate exported type aliases for all enum properties of a model.
+     * Used when the `emitEnumsAsTypes` option is set.
+     */
+    protected generateEnumTypes(props: { [name: string]: PropertyDefinition }, interfaceName: string): string[] {
+        const lines: string[] = [];
+        const keys = Object.keys(props || {});
+        if (this.options.sortKeys) {
+            keys.sort();
+        }
+
+        for (let key of keys) {
+            let prop = props[key];
+            if (prop.type === 'array') {
+                prop = prop.items;
+            }
+            if (prop.type !== 'array' && prop.type !== 'object' && prop.type !== 'union' && prop.type !== 'intersection'
+                    && prop.enum && prop.enum.length) {
+                const typeName = this.generateEnumTypeName(interfaceName, key);
+                lines.push(`export type ${typeName} = ${this.formatEnumAsUnion(prop.enum)};`, '');
+            }
+        }
+
+        return lines;
+    }
+
+    /**
+     * Generate the name of the type alias for an enum property.
+     *
+     * @param {string} interfaceName The rendered name of the model, e.g. "JobResponse"
+     * @param {string} propertyName The name of the enum property, e.g. "status"
+     */
+    protected generateEnumTypeName(interfaceName: string, propertyName: string): string {
+        return interfaceName + pascalCase(propertyName);
+    }
+
+    /** Format the allowed values of an enum as union of literal types, e.g. `'READ' | 'UPDATE'`. */
+    protected formatEnumAsUnion(values: Array<string | number | boolean>): string {
+        return values.map(value => formatValueAsPOJO(value)).join(' | ');
+    }
+
     /**
      * Returns a list of all endpoints that return the passed schema as Response for any status code.
      */
@@ -410,19 +755,60 @@ export class TypescriptModelRenderer implements ModelRenderer {
         return formatValueAsPOJO(responseExample, this.options.indentation);
     }
 
+    /**
+     * Returns JsDoc tags for the validation constraints of a property,
+     * e.g. `@format date-time` or `@maxLength 255`.
+     */
+    protected generateConstraintTags(prop: PropertyDefinition): string[] {
+        let constraints: { [tag: string]: string | number | undefined };
+        switch (prop.type) {
+            case 'any':
+            case 'boolean':
+            case 'integer':
+            case 'number':
+            case 'string':
+                constraints = {
+                    format: prop.format,
+                    pattern: prop.pattern,
+                    minimum: prop.minimum,
+                    maximum: prop.maximum,
+                    minLength: prop.minLength,
+                    maxLength: prop.maxLength
+                };
+                break;
+            case 'array':
+                constraints = {
+                    minItems: prop.minItems,
+                    maxItems: prop.maxItems
+                };
+                break;
+            default:
+                constraints = {};
+        }
+
+        return Object.keys(constraints)
+            .filter(tag => constraints[tag] != null)
+            .map(tag => '@' + tag + ' ' + String(constraints[tag]).replace(/\*\//g, '*\\/'));
+    }
+
     /** Returns lines representing a JsDoc comment for the passed information */
-    protected generateJsDoc({ description, defaultValue, example, responses }: {
+    protected generateJsDoc({ description, defaultValue, example, responses, tags }: {
                 description?: string,
                 defaultValue?: any,
                 example?: string
-                responses?: CombinedResponseInfo[]
+                responses?: CombinedResponseInfo[],
+                tags?: string[]
             }): string[] {
 
         if (responses && responses.length === 0) {
             responses = undefined;
         }
 
-        if (!description && !example && !responses) {
+        if (tags && tags.length === 0) {
+            tags = undefined;
+        }
+
+        if (!description && !example && !responses && !tags) {
             return [];
         }
 
@@ -439,7 +825,7 @@ export class TypescriptModelRenderer implements ModelRenderer {
         const maxLineLength = this.options.maxLineLength - 4 * this.options.indentation.length - 3;
         const descriptionLines = description ? wordWrap(description, maxLineLength) : [];
 
-        if (!example && description && descriptionLines.length === 1 && !responses) {
+        if (!example && description && descriptionLines.length === 1 && !responses && !tags) {
             return ['/** ' + description + ' */'];
         }
 
@@ -463,7 +849,11 @@ export class TypescriptModelRenderer implements ModelRenderer {
             }
         }
 
-        if ((description || responses) && example) {
+        if (tags) {
+            lines.push(...tags);
+        }
+
+        if ((description || responses || tags) && example) {
             lines.push('');
         }
 
@@ -514,7 +904,11 @@ export class TypescriptModelRenderer implements ModelRenderer {
         return unique;
     }
 
-    protected async renderTypescriptProperties(props: { [name: string]: PropertyDefinition }): Promise<string[]> {
+    /**
+     * Render the properties of a model as lines of a TypeScript interface.
+     * @param parentName The rendered name of the model, used to name enum types.
+     */
+    protected async renderTypescriptProperties(props: { [name: string]: PropertyDefinition }, parentName?: string): Promise<string[]> {
         const lines: string[] = [];
         const keys = Object.keys(props);
         if (this.options.sortKeys) {
@@ -523,37 +917,104 @@ export class TypescriptModelRenderer implements ModelRenderer {
 
         for (let key of keys) {
             const prop = props[key];
-            if (prop.description) {
-                lines.push(...this.generateJsDoc({ description: prop.description, example: prop.example }));
+            const tags = this.options.emitConstraintTags ? this.generateConstraintTags(prop) : [];
+            if (prop.description || tags.length) {
+                lines.push(...this.generateJsDoc({ description: prop.description, example: prop.example, tags }));
             }
 
             const readonlyText = this.options.emitInterfacesAsReadonly ? 'readonly ' : '';
-            const valueText = await this.renderTypescriptPropertyDefinition(prop);
+            const enumTypeName = parentName ? this.generateEnumTypeName(parentName, key) : undefined;
+            const valueText = await this.renderTypescriptPropertyDefinition(prop, enumTypeName);
             const separator = prop.required ? ': ' : '?: ';
 
-            lines.push([readonlyText, formatAsObjectKey(key), separator, valueText, ';'].join(''));
+            lines.push(...this.formatMultilineValue(readonlyText + formatAsObjectKey(key) + separator, valueText, ';'));
         }
 
         return this.indent(lines);
     }
 
-    protected async renderTypescriptPropertyDefinition(prop: PropertyDefinition): Promise<string> {
+    /**
+     * Prepends a prefix to the first line and appends a suffix to the last line of a rendered value,
+     * which can span multiple lines for object literal types.
+     */
+    protected formatMultilineValue(prefix: string, valueText: string, suffix: string): string[] {
+        const lines = valueText.split('\n');
+        lines[0] = prefix + lines[0];
+        lines[lines.length - 1] += suffix;
+        return lines;
+    }
+
+    /** Wraps a rendered type in parentheses if it contains the passed operator, e.g. unions in intersections. */
+    protected wrapInParentheses(typeText: string, operator: string): string {
+        return typeText.indexOf(operator) >= 0 ? '(' + typeText + ')' : typeText;
+    }
+
+    /**
+     * Checks if an inline model is rendered as object literal where it is used.
+     * Recursive models are always rendered as interface, since a literal type can not reference itself.
+     */
+    protected isRenderedAsLiteral(model: ObjectProperty): boolean {
+        return !!model.inline && this.options.emitInlineModelsAsLiterals && !model.recursive;
+    }
+
+    /**
+     * Render an object schema as object literal type, e.g. for inline models.
+     * Objects which contain themselves without a model name in between are rendered as `any` where they recur.
+     */
+    protected async renderObjectLiteral(prop: ObjectProperty): Promise<string> {
+        if (this.literalStack.indexOf(prop) >= 0) {
+            return 'any';
+        }
+
+        this.literalStack.push(prop);
+        try {
+            const parentName = prop.id ? this.generateModelName(prop.id) : undefined;
+            const properties = await this.renderTypescriptProperties(prop.properties || {}, parentName);
+            if (prop.additionalProperties) {
+                const hashType = await this.renderTypescriptPropertyDefinition(prop.additionalProperties);
+                properties.push(...this.indent(this.formatMultilineValue('[key: string]: ', hashType, ';')));
+            }
+            return properties.length ? ['{', ...properties, '}'].join('\n') : '{ }';
+        } finally {
+            this.literalStack.pop();
+        }
+    }
+
+    /**
+     * Render the TypeScript type of a property.
+     * @param enumTypeName Name of the type alias to reference for enums when `emitEnumsAsTypes` is set.
+     */
+    protected async renderTypescriptPropertyDefinition(prop: PropertyDefinition, enumTypeName?: string): Promise<string> {
+        if (prop.nullable) {
+            const nonNullable = Object.assign({}, prop, { nullable: false }) as PropertyDefinition;
+            return await this.renderTypescriptPropertyDefinition(nonNullable, enumTypeName) + ' | null';
+        }
+
         switch (prop.type) {
             case 'any':
             case 'boolean':
+            case 'integer':
             case 'number':
             case 'string':
+                if (prop.enum && prop.enum.length) {
+                    return (this.options.emitEnumsAsTypes && enumTypeName)
+                        ? enumTypeName
+                        : this.formatEnumAsUnion(prop.enum);
+                } else if (prop.type === 'integer') {
+                    return this.options.emitIntegerAs || 'number';
+                }
                 return prop.type;
-            case 'integer':
-                return this.options.emitIntegerAs || 'number';
             case 'array':
-                const arrayType = await this.renderTypescriptPropertyDefinition(prop.items);
+                const arrayType = await this.renderTypescriptPropertyDefinition(prop.items, enumTypeName);
                 if (/^[A-Za-z$_][A-Za-z0-9$_]*$/.test(arrayType)) {
                     return arrayType + '[]';
                 } else {
                     return 'Array<' + arrayType + '>';
                 }
             case 'object':
+                if (this.isRenderedAsLiteral(prop)) {
+                    return this.renderObjectLiteral(prop);
+                }
                 const modelName = this.generateModelName(prop.id || prop.$ref || '');
                 if (modelName && (prop.id || prop.$ref)) {
                     return modelName;
@@ -569,7 +1030,32 @@ export class TypescriptModelRenderer implements ModelRenderer {
                     return lines.join('\n');
                 }
 
-                throw new Error('object property without id or additionalProperties: ' + JSON.stringify(prop, null, 2));
+                // Inline objects without id are rendered as object literal when the parser did not name them
+                return this.renderObjectLiteral(prop);
+
+            case 'union':
+                const variantTexts: string[] = [];
+                for (let index = 0; index < prop.variants.length; index++) {
+                    const variantText = await this.renderTypescriptPropertyDefinition(prop.variants[index]);
+                    const discriminatorValue = prop.discriminator && prop.discriminatorValues
+                        ? prop.discriminatorValues[index]
+                        : undefined;
+                    if (discriminatorValue !== undefined) {
+                        // Add the discriminator to variants which do not declare its value to make the union narrowable
+                        const discriminatorText = `{ ${formatAsObjectKey(prop.discriminator!)}: ${formatValueAsPOJO(discriminatorValue)} }`;
+                        variantTexts.push(this.wrapInParentheses(variantText, ' | ') + ' & ' + discriminatorText);
+                    } else {
+                        variantTexts.push(variantText);
+                    }
+                }
+                return variantTexts.join(' | ');
+
+            case 'intersection':
+                const memberTexts: string[] = [];
+                for (let member of prop.members) {
+                    memberTexts.push(this.wrapInParentheses(await this.renderTypescriptPropertyDefinition(member), ' | '));
+                }
+                return memberTexts.join(' & ');
 
             default:
                 return unhandledCase(prop);
@@ -0,0 +1,168 @@
+import { expect } from 'chai';
+import { ZodRenderer } from './zod-renderer';
+import { Endpoint, ModelMap, ObjectProperty, ParsedMeshRAML } from '../interfaces';
+import { unindent } from '../utils/unindent';
+
+describe('ZodRenderer', () => {
+
+    let renderer: ZodRenderer;
+    beforeEach(() => {
+        renderer = new ZodRenderer();
+    });
+
+    const userReference: ObjectProperty = {
+        type: 'object',
+        id: 'urn:jsonschema:com:gentics:mesh:core:rest:user:UserReference',
+        properties: {
+            uuid: { type: 'string', required: true, pattern: '^[0-9a-f]{32}$' },
+            firstName: { type: 'string', required: false, nullable: true, maxLength: 50 }
+        }
+    };
+
+    const models: ModelMap = {
+        'urn:jsonschema:com:gentics:mesh:core:rest:user:UserResponse': {
+            type: 'object',
+            id: 'urn:jsonschema:com:gentics:mesh:core:rest:user:UserResponse',
+            description: 'A user',
+            properties: {
+                creator: { type: 'object', $ref: userReference.id, required: true } as ObjectProperty,
+                role: { type: 'string', required: true, enum: ['admin', 'editor'] },
+                loginCount: { type: 'integer', required: false, minimum: 0 },
+                settings: {
+                    type: 'object',
+                    required: true,
+                    properties: {},
+                    additionalProperties: { type: 'boolean' }
+                } as any
+            }
+        },
+        [userReference.id]: userReference
+    };
+
+    it('renders schemas with inferred types after the models they reference', async () => {
+        const result = await renderer.generateSchemas({ models } as ParsedMeshRAML);
+        expect(result).to.equal(unindent `
+            export const UserReferenceSchema = z.object({
+                firstName: z.string().max(50).nullable().optional(),
+                uuid: z.string().regex(new RegExp('^[0-9a-f]{32}$'))
+            });
+            export type UserReference = z.infer<typeof UserReferenceSchema>;
+
+            /** A user */
+            export const UserResponseSchema = z.object({
+                creator: UserReferenceSchema,
+                loginCount: z.number().int().min(0).optional(),
+                role: z.enum(['admin', 'editor']),
+                settings: z.record(z.boolean())
+            });
+            export type UserResponse = z.infer<typeof UserResponseSchema>;
+
+        `);
+    });
+
+    it('renders properties without a required flag as optional', async () => {
+        const optionalModels: ModelMap = {
+            TagReference: {
+                type: 'object',
+                id: 'TagReference',
+                properties: {
+                    name: { type: 'string' },
+                    uuid: { type: 'string', required: true },
+                    fields: { type: 'object', properties: {}, additionalProperties: { type: 'any' } } as any
+                }
+            }
+        };
+        const result = await renderer.generateSchemas({ models: optionalModels } as ParsedMeshRAML);
+        expect(result).to.equal(unindent `
+            export const TagReferenceSchema = z.object({
+                fields: z.record(z.any()).optional(),
+                name: z.string().optional(),
+                uuid: z.string()
+            });
+            export type TagReference = z.infer<typeof TagReferenceSchema>;
+
+        `);
+    });
+
+    it('renders recursive models with their interface and a lazy schema', async () => {
+        const navigationElement: ObjectProperty = {
+            type: 'object',
+            id: 'NavigationElement',
+            recursive: true,
+            properties: {
+                uuid: { type: 'string', required: true },
+                children: { type: 'array', required: false, items: { type: 'object', $ref: 'NavigationElement' } as ObjectProperty }
+            }
+        };
+        const result = await renderer.generateSchemas({ models: { NavigationElement: navigationElement }, endpoints: [] } as any);
+        expect(result).to.equal(unindent `
+            export interface NavigationElement {
+                children?: NavigationElement[];
+                uuid: string;
+            }
+
+            export const NavigationElementSchema: z.ZodType<NavigationElement> = z.lazy(() => z.object({
+                children: z.array(z.lazy(() => NavigationElementSchema)).optional(),
+                uuid: z.string()
+            }));
+
+        `);
+    });
+
+    it('renders unions, intersections and literals', async () => {
+        const unionModels: ModelMap = {
+            SearchResult: {
+                type: 'union',
+                discriminator: 'kind',
+                discriminatorValues: ['user', undefined],
+                variants: [
+                    { type: 'object', $ref: userReference.id } as ObjectProperty,
+                    {
+                        type: 'intersection',
+                        members: [{ type: 'object', $ref: userReference.id } as ObjectProperty, { type: 'number', enum: [1] }]
+                    }
+                ]
+            } as any,
+            [userReference.id]: userReference
+        };
+        const result = await renderer.generateSchemas({ models: unionModels } as ParsedMeshRAML);
+        expect(result).to.contain(
+            `export const SearchResultSchema = z.union([UserReferenceSchema.and(z.object({ kind: z.literal('user') })), ` +
+            `z.intersection(UserReferenceSchema, z.literal(1))]);`);
+    });
+
+    it('renders the schemas of JSON request and response bodies by method and URL', () => {
+        const endpoints = [{
+            method: 'POST',
+            url: '/users/{userUuid}',
+            description: 'Update the user',
+            requestBody: { mimeType: 'application/json', schema: { type: 'object', $ref: userReference.id } },
+            responses: {
+                200: { description: 'Updated', responseBodySchema: { type: 'object', $ref: 'urn:jsonschema:com:gentics:mesh:core:rest:user:UserResponse' } },
+                404: { description: 'Not found' }
+            }
+        }, {
+            method: 'GET',
+            url: '/users/{userUuid}/avatar',
+            description: 'Download the avatar',
+            responses: { 200: { description: 'Image', bodies: { 'image/png': { mimeType: 'image/png' } } } }
+        }] as any as Endpoint[];
+
+        const result = renderer.generateEndpointSchemas({ models, endpoints } as ParsedMeshRAML);
+        expect(result).to.equal(unindent `
+            /** Schemas of the JSON request and response bodies of all API endpoints */
+            export const apiEndpointSchemas = {
+                POST: {
+                    '/users/{userUuid}': {
+                        request: UserReferenceSchema,
+                        responses: {
+                            200: UserResponseSchema,
+                        },
+                    },
+                },
+            };
+
+        `);
+    });
+
+});
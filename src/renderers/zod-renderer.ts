@@ -0,0 +1,331 @@
+import { ModelRenderer } from './renderer';
+import { TypescriptModelRenderer } from './typescript-renderer';
+import { Endpoint, ModelMap, ObjectProperty, ParsedMeshRAML, PropertyDefinition } from '../interfaces';
+import { formatAsObjectKey, formatValueAsPOJO } from '../utils/format-as-pojo';
+import { jsonMediaType } from '../utils/media-types';
+import { unhandledCase } from '../utils/unhandled-case';
+import { unindent } from '../utils/unindent';
+
+export const defaultOptions = {
+    /** Render the schemas of the request and response bodies of all endpoints. */
+    addEndpointSchemas: true,
+    endpointSchemasName: 'apiEndpointSchemas',
+    indentation: '    ',
+    /** Appended to the model name to name its schema, e.g. "UserResponseSchema". */
+    schemaSuffix: 'Schema',
+    /** Module zod is imported from. */
+    zodModule: 'zod'
+};
+export type Options = typeof defaultOptions;
+
+/**
+ * Renders the request/response models as zod schemas to validate API responses at runtime,
+ * with types inferred from the schemas which match the interfaces of the {@link TypescriptModelRenderer}.
+ *
+ * @example
+ *     export const UserReferenceSchema = z.object({
+ *         firstName: z.string().optional(),
+ *         uuid: z.string()
+ *     });
+ *     export type UserReference = z.infer<typeof UserReferenceSchema>;
+ */
+export class ZodRenderer implements ModelRenderer {
+
+    public options: Options;
+
+    /** Schemas of models which are already rendered, references to all other models are wrapped in `z.lazy()`. */
+    protected renderedModels: string[] = [];
+
+    /** Inline objects which are currently rendered, used to stop at objects which contain themselves. */
+    protected objectStack: ObjectProperty[] = [];
+
+    constructor(options?: Partial<Options>) {
+        this.options = { ...defaultOptions, ...(options || {}) };
+    }
+
+    async renderAll(raml: ParsedMeshRAML): Promise<string> {
+        const parts = [
+            await this.generateSchemas(raml),
+            this.options.addEndpointSchemas ? this.generateEndpointSchemas(raml) : ''
+        ];
+        return this.fileHead(raml.version) + parts.filter(part => !!part).join('\n');
+    }
+
+    protected fileHead(version: string): string {
+        return unindent `
+            // Auto-generated from the RAML for Version ${version} of the Gentics Mesh REST API.
+
+            import { z } from '${this.options.zodModule}';
+
+
+        `;
+    }
+
+    /**
+     * Generate a schema and an inferred type for all models, models are rendered after the models they reference.
+     * Recursive models can not be inferred, their interfaces are rendered like by the {@link TypescriptModelRenderer}.
+     */
+    async generateSchemas(raml: ParsedMeshRAML): Promise<string> {
+        const { models } = raml;
+        const recursiveModels = Object.keys(models).filter(id => {
+            const model = models[id];
+            return model.type === 'object' && !!model.recursive;
+        });
+
+        const lines: string[] = [];
+        if (recursiveModels.length) {
+            const interfaceRenderer = new TypescriptModelRenderer({ emitConstraintTags: false, emitIntegerAs: 'number' });
+            const isRecursive = (model: ObjectProperty) => recursiveModels.some(id => models[id] === model);
+            lines.push(await interfaceRenderer.generateInterfaces(raml, isRecursive));
+        }
+
+        this.renderedModels = [];
+        for (let id of this.sortByDependencies(models)) {
+            const model = models[id];
+            const name = this.generateModelName(id);
+            const schemaName = name + this.options.schemaSuffix;
+            if (model.description) {
+                lines.push('/** ' + model.description.replace(/\s+/g, ' ').replace(/\*\//g, '*\\/') + ' */');
+            }
+
+            if (recursiveModels.indexOf(id) >= 0) {
+                const schema = this.renderObject(model as ObjectProperty, models);
+                lines.push(...this.formatMultilineValue(
+                    `export const ${schemaName}: z.ZodType<${name}> = z.lazy(() => `, schema, ');'));
+            } else {
+                const schema = model.type === 'object' && !model.$ref
+                    ? this.renderObject(model, models)
+                    : this.renderSchema(model, models);
+                lines.push(
+                    ...this.formatMultilineValue(`export const ${schemaName} = `, schema, ';'),
+                    `export type ${name} = z.infer<typeof ${schemaName}>;`
+                );
+            }
+            lines.push('');
+            this.renderedModels.push(id);
+        }
+
+        return lines.join('\n');
+    }
+
+    /** Generate a hash of the schemas of the JSON request and response bodies by method, URL and status code. */
+    generateEndpointSchemas(raml: ParsedMeshRAML): string {
+        const { models } = raml;
+        // The endpoint schemas are rendered after the schemas of all models
+        this.renderedModels = Object.keys(models);
+        const methods: { [method: string]: Endpoint[] } = {};
+        for (let endpoint of raml.endpoints) {
+            methods[endpoint.method] = methods[endpoint.method] || [];
+            methods[endpoint.method].push(endpoint);
+        }
+
+        const methodLines: string[] = [];
+        for (let method of Object.keys(methods)) {
+            const urlLines: string[] = [];
+            for (let endpoint of methods[method]) {
+                const endpointLines: string[] = [];
+                const requestBody = endpoint.requestBody;
+                if (requestBody && requestBody.schema && jsonMediaType.test(requestBody.mimeType)) {
+                    endpointLines.push(...this.formatMultilineValue('request: ', this.renderSchema(requestBody.schema, models), ','));
+                }
+
+                const responseLines: string[] = [];
+                for (let statusCode of Object.keys(endpoint.responses)) {
+                    const schema = endpoint.responses[Number(statusCode)].responseBodySchema;
+                    if (schema) {
+                        responseLines.push(...this.formatMultilineValue(statusCode + ': ', this.renderSchema(schema, models), ','));
+                    }
+                }
+                if (responseLines.length) {
+                    endpointLines.push('responses: {', ...this.indent(responseLines), '},');
+                }
+
+                if (endpointLines.length) {
+                    urlLines.push(formatAsObjectKey(endpoint.url) + ': {', ...this.indent(endpointLines), '},');
+                }
+            }
+            if (urlLines.length) {
+                methodLines.push(method + ': {', ...this.indent(urlLines), '},');
+            }
+        }
+
+        return [
+            '/** Schemas of the JSON request and response bodies of all API endpoints */',
+            `export const ${this.options.endpointSchemasName} = {`,
+            ...this.indent(methodLines),
+            '};\n'
+        ].join('\n');
+    }
+
+    /** Returns the model ids in an order in which every model comes after the models it references. */
+    protected sortByDependencies(models: ModelMap): string[] {
+        const result: string[] = [];
+        const visiting: string[] = [];
+
+        const collectReferences = (schema: PropertyDefinition | undefined, references: string[], visited: PropertyDefinition[],
+                isModel = false): void => {
+            if (!schema || visited.indexOf(schema) >= 0) {
+                return;
+            }
+            visited.push(schema);
+            switch (schema.type) {
+                case 'array':
+                    collectReferences(schema.items, references, visited);
+                    break;
+                case 'object':
+                    const id = isModel ? undefined : schema.$ref || schema.id;
+                    if (id) {
+                        references.push(id);
+                    } else {
+                        Object.keys(schema.properties || {}).forEach(key => collectReferences(schema.properties[key], references, visited));
+                        collectReferences(schema.additionalProperties, references, visited);
+                    }
+                    break;
+                case 'union':
+                    schema.variants.forEach(variant => collectReferences(variant, references, visited));
+                    break;
+                case 'intersection':
+                    schema.members.forEach(member => collectReferences(member, references, visited));
+                    break;
+            }
+        };
+
+        const visit = (id: string) => {
+            if (result.indexOf(id) >= 0 || visiting.indexOf(id) >= 0 || !models[id]) {
+                return;
+            }
+            visiting.push(id);
+            const references: string[] = [];
+            collectReferences(models[id], references, [], true);
+            references.forEach(visit);
+            visiting.pop();
+            result.push(id);
+        };
+
+        Object.keys(models).sort().forEach(visit);
+        return result;
+    }
+
+    /** Returns the name of a model, e.g. "urn:jsonschema:com:gentics:mesh:core:rest:user:UserResponse" => "UserResponse" */
+    protected generateModelName(schemaRef: string): string {
+        return schemaRef.replace(/^urn:jsonschema:([a-z]+:)*/, '');
+    }
+
+    /** Render the zod schema of a property, including whether it is nullable. */
+    protected renderSchema(prop: PropertyDefinition, models: ModelMap): string {
+        const schema = this.renderType(prop, models);
+        return prop.nullable ? schema + '.nullable()' : schema;
+    }
+
+    protected renderType(prop: PropertyDefinition, models: ModelMap): string {
+        switch (prop.type) {
+            case 'any':
+                return 'z.any()';
+
+            case 'boolean':
+            case 'integer':
+            case 'number':
+            case 'string':
+                if (prop.enum && prop.enum.length) {
+                    const values = prop.enum;
+                    if (values.length > 1 && values.every(value => typeof value === 'string')) {
+                        return `z.enum([${values.map(value => formatValueAsPOJO(value)).join(', ')}])`;
+                    }
+                    const literals = values.map(value => `z.literal(${formatValueAsPOJO(value)})`);
+                    return literals.length > 1 ? `z.union([${literals.join(', ')}])` : literals[0];
+                }
+
+                let schema = prop.type === 'integer' ? 'z.number().int()' : `z.${prop.type}()`;
+                const min = prop.type === 'string' ? prop.minLength : prop.minimum;
+                const max = prop.type === 'string' ? prop.maxLength : prop.maximum;
+                if (prop.type === 'string' && prop.pattern) {
+                    schema += `.regex(new RegExp(${formatValueAsPOJO(prop.pattern)}))`;
+                }
+                if (min !== undefined) {
+                    schema += `.min(${min})`;
+                }
+                if (max !== undefined) {
+                    schema += `.max(${max})`;
+                }
+                return schema;
+
+            case 'array':
+                let arraySchema = 'z.array(' + this.renderSchema(prop.items, models) + ')';
+                if (prop.minItems !== undefined) {
+                    arraySchema += `.min(${prop.minItems})`;
+                }
+                if (prop.maxItems !== undefined) {
+                    arraySchema += `.max(${prop.maxItems})`;
+                }
+                return arraySchema;
+
+            case 'object':
+                const id = prop.$ref || prop.id;
+                if (id && models[id]) {
+                    const schemaName = this.generateModelName(id) + this.options.schemaSuffix;
+                    return this.renderedModels.indexOf(id) >= 0 ? schemaName : `z.lazy(() => ${schemaName})`;
+                } else if (this.objectStack.indexOf(prop) >= 0) {
+                    return 'z.any()';
+                }
+
+                this.objectStack.push(prop);
+                try {
+                    return this.renderObject(prop, models);
+                } finally {
+                    this.objectStack.pop();
+                }
+
+            case 'union':
+                const variants = prop.variants.map((variant, index) => {
+                    const variantSchema = this.renderSchema(variant, models);
+                    const value = prop.discriminator && prop.discriminatorValues && prop.discriminatorValues[index];
+                    return value === undefined
+                        ? variantSchema
+                        : `${variantSchema}.and(z.object({ ${formatAsObjectKey(prop.discriminator!)}: z.literal(${formatValueAsPOJO(value)}) }))`;
+                });
+                return variants.length > 1 ? `z.union([${variants.join(', ')}])` : variants[0];
+
+            case 'intersection':
+                const members = prop.members.map(member => this.renderSchema(member, models));
+                return members.slice(1).reduce((result, member) => `z.intersection(${result}, ${member})`, members[0]);
+
+            default:
+                return unhandledCase(prop);
+        }
+    }
+
+    /** Render an object as `z.object()` with all its properties, or as `z.record()` if it is a hash. */
+    protected renderObject(prop: ObjectProperty, models: ModelMap): string {
+        const keys = Object.keys(prop.properties || {}).sort();
+        const valueSchema = prop.additionalProperties ? this.renderSchema(prop.additionalProperties, models) : '';
+        if (!keys.length) {
+            return valueSchema ? `z.record(${valueSchema})` : 'z.object({ })';
+        }
+
+        const lines = ['z.object({'];
+        keys.forEach((key, index) => {
+            const separator = index < keys.length - 1 ? ',' : '';
+            // Properties are optional unless they are marked as required, like in the rendered interfaces
+            const property = prop.properties[key];
+            const schema = this.renderSchema(property, models) + (property.required ? '' : '.optional()');
+            lines.push(...this.indent(this.formatMultilineValue(formatAsObjectKey(key) + ': ', schema, separator)));
+        });
+        lines.push(valueSchema ? `}).catchall(${valueSchema})` : '})');
+        return lines.join('\n');
+    }
+
+    /**
+     * Prepends a prefix to the first line and appends a suffix to the last line of a rendered value,
+     * which can span multiple lines for objects.
+     */
+    protected formatMultilineValue(prefix: string, valueText: string, suffix: string): string[] {
+        const lines = valueText.split('\n');
+        lines[0] = prefix + lines[0];
+        lines[lines.length - 1] += suffix;
+        return lines;
+    }
+
+    protected indent(lines: string[]): string[] {
+        return lines.map(line => line ? this.options.indentation + line : line);
+    }
+}
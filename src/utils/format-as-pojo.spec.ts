@@ -82,4 +82,12 @@ describe('formatValueAsPOJO', () => {
         expect(formatValueAsPOJO({ a: { b: {} } })).to.equal(`{\n    a: {\n        b: { }\n    }\n}`);
     });
 
+    it('formats references to ancestors of cyclic objects as [Circular]', () => {
+        const node: any = { name: 'root', children: [] };
+        node.children.push({ parent: node });
+        const shared = { a: 1 };
+        expect(formatValueAsPOJO(node)).to.equal(`{\n    name: 'root',\n    children: [\n        {\n            parent: [Circular]\n        }\n    ]\n}`);
+        expect(formatValueAsPOJO([shared, shared])).to.equal(`[\n    {\n        a: 1\n    },\n    {\n        a: 1\n    }\n]`);
+    });
+
 });
@@ -12,13 +12,18 @@ export function formatJsonAsPOJO(json: string, indentation = '    '): string {
 /**
  * Format a value as its JavaScript representation.
  *
- * Not safe to use on cyclic objects.
+ * References of cyclic objects to their ancestors are rendered as `[Circular]`.
  *
  * @example
  *     formatJsonAsPOJO('{"a":"text", "b": 15"})
  *     // => '{\n    a: 'text',\n    b: 15\n}'
  */
 export function formatValueAsPOJO(value: any, indentation = '    '): string {
+    return formatValue(value, indentation, []);
+}
+
+/** @param ancestors The objects and arrays which contain the value, used to detect cycles. */
+function formatValue(value: any, indentation: string, ancestors: object[]): string {
     const indent = (input: string) => input.split('\n').join('\n' + indentation);
 
     if (value === null) {
@@ -41,19 +46,24 @@ export function formatValueAsPOJO(value: any, indentation = '    '): string {
             const jsonString = JSON.stringify(value).replace(/'/g, '\\\'');
             return '\'' + jsonString.substr(1, jsonString.length - 2) + '\'';
         case 'object':
+            if (ancestors.indexOf(value) >= 0) {
+                return '[Circular]';
+            }
+            const nestedAncestors = ancestors.concat([value]);
+
             if (Array.isArray(value)) {
                 if (!value.length) {
                     return '[]';
                 }
                 return '[\n    ' + value.map(v =>
-                    indent(formatValueAsPOJO(v))
+                    indent(formatValue(v, '    ', nestedAncestors))
                     ).join(',\n' + indentation) + '\n]';
             } else {
                 let keys = Object.keys(value);
                 if (keys.length === 0) {
                     return '{ }';
                 }
-                keys = keys.map(key => formatAsObjectKey(key) + ': ' + indent(formatValueAsPOJO(value[key])));
+                keys = keys.map(key => formatAsObjectKey(key) + ': ' + indent(formatValue(value[key], '    ', nestedAncestors)));
                 return '{\n    ' + keys.join(',\n    ') + '\n}';
             }
         case 'undefined':
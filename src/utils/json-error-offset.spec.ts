@@ -0,0 +1,25 @@
+import { expect } from 'chai';
+import { findJsonErrorOffset } from './json-error-offset';
+
+describe('findJsonErrorOffset()', () => {
+
+    it('returns -1 for valid JSON', () => {
+        expect(findJsonErrorOffset('{ "a": [1, -2.5e3, true, false, null, "x\\n\\u00e4"], "b": {} }')).to.equal(-1);
+        expect(findJsonErrorOffset(' "string" ')).to.equal(-1);
+    });
+
+    it('returns the offset of unexpected characters', () => {
+        expect(findJsonErrorOffset('{ "a" 1 }')).to.equal(6);
+        expect(findJsonErrorOffset('{\n  "a": x\n}')).to.equal(9);
+        expect(findJsonErrorOffset('[1, 2,]')).to.equal(6);
+        expect(findJsonErrorOffset('{ "a": 1 } x')).to.equal(11);
+        expect(findJsonErrorOffset('{ "a": tru }')).to.equal(10);
+    });
+
+    it('returns the length of the input when it ends unexpectedly', () => {
+        expect(findJsonErrorOffset('{ "a": ')).to.equal(7);
+        expect(findJsonErrorOffset('')).to.equal(0);
+        expect(findJsonErrorOffset('"abc')).to.equal(4);
+    });
+
+});
@@ -0,0 +1,110 @@
+/**
+ * Finds the offset of the first syntax error in a JSON string, or returns -1 for valid JSON.
+ * The error messages of `JSON.parse` do not contain the position in all Node versions.
+ */
+export function findJsonErrorOffset(json: string): number {
+    let position = 0;
+
+    const skipWhitespace = () => {
+        while (position < json.length && /[ \t\r\n]/.test(json[position])) {
+            position++;
+        }
+    };
+
+    const expectLiteral = (literal: string) => {
+        for (let index = 0; index < literal.length; index++, position++) {
+            if (json[position] !== literal[index]) {
+                throw position;
+            }
+        }
+    };
+
+    const parseString = () => {
+        expectLiteral('"');
+        while (json[position] !== '"') {
+            if (position >= json.length || json.charCodeAt(position) < 0x20) {
+                throw position;
+            } else if (json[position] === '\\') {
+                position++;
+                if (json[position] === 'u') {
+                    const match = /^[0-9a-fA-F]{4}/.exec(json.substr(position + 1, 4));
+                    position += match ? 5 : 1;
+                    if (!match) {
+                        throw position;
+                    }
+                } else if ('"\\/bfnrt'.indexOf(json[position]) < 0 || position >= json.length) {
+                    throw position;
+                } else {
+                    position++;
+                }
+            } else {
+                position++;
+            }
+        }
+        position++;
+    };
+
+    const parseValue = (): void => {
+        skipWhitespace();
+        const char = json[position];
+        if (char === '{') {
+            position++;
+            skipWhitespace();
+            if (json[position] === '}') {
+                position++;
+                return;
+            }
+            while (true) {
+                skipWhitespace();
+                parseString();
+                skipWhitespace();
+                expectLiteral(':');
+                parseValue();
+                skipWhitespace();
+                if (json[position] === '}') {
+                    position++;
+                    return;
+                }
+                expectLiteral(',');
+            }
+        } else if (char === '[') {
+            position++;
+            skipWhitespace();
+            if (json[position] === ']') {
+                position++;
+                return;
+            }
+            while (true) {
+                parseValue();
+                skipWhitespace();
+                if (json[position] === ']') {
+                    position++;
+                    return;
+                }
+                expectLiteral(',');
+            }
+        } else if (char === '"') {
+            parseString();
+        } else if (char === 't') {
+            expectLiteral('true');
+        } else if (char === 'f') {
+            expectLiteral('false');
+        } else if (char === 'n') {
+            expectLiteral('null');
+        } else {
+            const match = /^-?(0|[1-9][0-9]*)(\.[0-9]+)?([eE][+-]?[0-9]+)?/.exec(json.substr(position));
+            if (!match) {
+                throw position;
+            }
+            position += match[0].length;
+        }
+    };
+
+    try {
+        parseValue();
+        skipWhitespace();
+        return position < json.length ? position : -1;
+    } catch (errorPosition) {
+        return Math.min(errorPosition, json.length);
+    }
+}
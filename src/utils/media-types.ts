@@ -0,0 +1,5 @@
+/** Media types of JSON bodies, e.g. "application/json" or "application/hal+json" */
+export const jsonMediaType = /^application\/(.+\+)?json\b/;
+
+/** Media types of bodies which are handled as string, all other non-JSON bodies are binary. */
+export const textMediaType = /^text\/|[\/+](xml|html|csv|javascript|yaml)\b/;
@@ -0,0 +1,34 @@
+import { expect } from 'chai';
+import { Endpoint } from '../interfaces';
+import { endpointMethodName, uniqueName } from './method-name';
+
+describe('endpointMethodName()', () => {
+
+    it('combines the method and the URL of the endpoint', () => {
+        const endpoint = { method: 'GET', url: '/users/{userUuid}' } as Endpoint;
+        expect(endpointMethodName(endpoint)).to.equal('getUsersUserUuid');
+    });
+
+    it('formats endpoints of the root URL', () => {
+        const endpoint = { method: 'POST', url: '/' } as Endpoint;
+        expect(endpointMethodName(endpoint)).to.equal('post');
+    });
+
+});
+
+describe('uniqueName()', () => {
+
+    it('returns unused names unchanged and adds them to the used names', () => {
+        const usedNames = ['getUsers'];
+        expect(uniqueName('getGroups', usedNames)).to.equal('getGroups');
+        expect(usedNames).to.deep.equal(['getUsers', 'getGroups']);
+    });
+
+    it('appends a counter to used names', () => {
+        const usedNames = ['getUsers'];
+        expect(uniqueName('getUsers', usedNames)).to.equal('getUsers2');
+        expect(uniqueName('getUsers', usedNames)).to.equal('getUsers3');
+        expect(usedNames).to.deep.equal(['getUsers', 'getUsers2', 'getUsers3']);
+    });
+
+});
@@ -0,0 +1,29 @@
+import { Endpoint } from '../interfaces';
+import { pascalCase } from './pascal-case';
+
+/**
+ * Returns the name of a method which requests an endpoint.
+ *
+ * @example
+ *     endpointMethodName({ method: 'GET', url: '/users/{userUuid}', ... }) // => 'getUsersUserUuid'
+ */
+export function endpointMethodName(endpoint: Endpoint): string {
+    return endpoint.method.toLowerCase() + pascalCase(endpoint.url);
+}
+
+/**
+ * Returns a name which is not in the list of used names by appending a counter, and adds it to the list.
+ *
+ * @example
+ *     const usedNames = ['getUsers'];
+ *     uniqueName('getUsers', usedNames) // => 'getUsers2'
+ *     uniqueName('getUsers', usedNames) // => 'getUsers3'
+ */
+export function uniqueName(name: string, usedNames: string[]): string {
+    let result = name;
+    for (let counter = 2; usedNames.indexOf(result) >= 0; counter++) {
+        result = name + counter;
+    }
+    usedNames.push(result);
+    return result;
+}
@@ -1,4 +1,4 @@
-import { readFile as nodeReadFile, writeFile as nodeWriteFile } from 'fs';
+import { mkdir, readFile as nodeReadFile, writeFile as nodeWriteFile } from 'fs';
 
 /** Wrapped fs.readFile as Promise */
 export function readFile(filename: string, encoding = 'utf-8'): Promise<string> {
@@ -27,6 +27,19 @@ export function readStreamToEnd(stream: NodeJS.ReadableStream, encoding = 'utf-8
     });
 }
 
+/** Wrapped fs.mkdir as Promise, which resolves when the directory already exists */
+export function makeDirectory(path: string): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        mkdir(path, (err?: NodeJS.ErrnoException | null) => {
+            if (err && err.code !== 'EEXIST') {
+                reject(err);
+            } else {
+                resolve();
+            }
+        });
+    });
+}
+
 /** Wrapped fs.writeFile as Promise */
 export function writeFile(filename: string, data: string, encoding = 'utf-8'): Promise<void> {
     return new Promise<void>((resolve, reject) => {
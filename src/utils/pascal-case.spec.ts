@@ -0,0 +1,22 @@
+import { expect } from 'chai';
+import { pascalCase } from './pascal-case';
+
+describe('pascalCase()', () => {
+
+    it('uppercases the first character', () => {
+        expect(pascalCase('nodeReference')).to.equal('NodeReference');
+        expect(pascalCase('NodeReference')).to.equal('NodeReference');
+    });
+
+    it('removes non-alphanumeric characters and uppercases the following character', () => {
+        expect(pascalCase('_metainfo')).to.equal('Metainfo');
+        expect(pascalCase('rolePerms.read')).to.equal('RolePermsRead');
+        expect(pascalCase('image-variants')).to.equal('ImageVariants');
+    });
+
+    it('formats URLs with parameters', () => {
+        expect(pascalCase('/users/{userUuid}/groups')).to.equal('UsersUserUuidGroups');
+        expect(pascalCase('/')).to.equal('');
+    });
+
+});
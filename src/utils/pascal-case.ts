@@ -0,0 +1,14 @@
+/**
+ * Formats a property name, URL or other identifier in PascalCase.
+ *
+ * @example
+ *     pascalCase('nodeReference') // => 'NodeReference'
+ *     pascalCase('_metainfo') // => 'Metainfo'
+ *     pascalCase('/users/{userUuid}') // => 'UsersUserUuid'
+ */
+export function pascalCase(input: string): string {
+    return input
+        .split(/[^a-zA-Z0-9]+/)
+        .map(part => part.charAt(0).toUpperCase() + part.substr(1))
+        .join('');
+}
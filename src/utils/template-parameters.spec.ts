@@ -0,0 +1,34 @@
+import { expect } from 'chai';
+import { substituteTemplateParameters } from './template-parameters';
+
+describe('substituteTemplateParameters()', () => {
+
+    it('replaces parameters with their values', () => {
+        expect(substituteTemplateParameters('Get all <<resourcePathName>> of <<owner>>',
+            { resourcePathName: 'users', owner: 'a group' })).to.equal('Get all users of a group');
+        expect(substituteTemplateParameters('<<maxPerPage>>', { maxPerPage: 50 })).to.equal('50');
+    });
+
+    it('applies parameter functions', () => {
+        const parameters = { name: 'userGroups', item: 'category' };
+        expect(substituteTemplateParameters('<<name | !singularize>>', parameters)).to.equal('userGroup');
+        expect(substituteTemplateParameters('<<item | !pluralize>>', parameters)).to.equal('categories');
+        expect(substituteTemplateParameters('<<name | !uppercase>>', parameters)).to.equal('USERGROUPS');
+        expect(substituteTemplateParameters('<<name | !uppercamelcase>>', parameters)).to.equal('UserGroups');
+        expect(substituteTemplateParameters('<<name | !lowercaseunderscorecase>>', parameters)).to.equal('user_groups');
+        expect(substituteTemplateParameters('<<name | !uppercasehyphencase>>', parameters)).to.equal('USER-GROUPS');
+        expect(substituteTemplateParameters('<<name | !singularize | !uppercamelcase>>', parameters)).to.equal('UserGroup');
+    });
+
+    it('keeps placeholders of unknown parameters and functions and reports them', () => {
+        const errors: string[] = [];
+        const result = substituteTemplateParameters('<<missing>> <<name | !reverse>>', { name: 'users' },
+            message => errors.push(message));
+        expect(result).to.equal('<<missing>> <<name | !reverse>>');
+        expect(errors).to.deep.equal([
+            'Missing value for parameter "missing"',
+            'Unknown parameter function "!reverse"'
+        ]);
+    });
+
+});
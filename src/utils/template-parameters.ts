@@ -0,0 +1,82 @@
+/** Functions which can be applied to parameters of RAML traits and resource types, e.g. `<<resourcePathName | !singularize>>` */
+const parameterFunctions: { [name: string]: (value: string) => string } = {
+    singularize,
+    pluralize,
+    uppercase: value => value.toUpperCase(),
+    lowercase: value => value.toLowerCase(),
+    lowercamelcase: value => splitWords(value).map((word, index) => index === 0 ? word : capitalize(word)).join(''),
+    uppercamelcase: value => splitWords(value).map(capitalize).join(''),
+    lowercaseunderscorecase: value => splitWords(value).join('_'),
+    uppercaseunderscorecase: value => splitWords(value).join('_').toUpperCase(),
+    lowercasehyphencase: value => splitWords(value).join('-'),
+    uppercasehyphencase: value => splitWords(value).join('-').toUpperCase()
+};
+
+/**
+ * Replaces the `<<parameter>>` placeholders of a RAML trait or resource type in a string.
+ * Placeholders of unknown parameters or functions are kept and passed to `onError`.
+ *
+ * @example
+ *     substituteTemplateParameters('<<resourcePathName | !singularize>>Id', { resourcePathName: 'users' }) // => 'userId'
+ */
+export function substituteTemplateParameters(text: string, parameters: { [name: string]: any },
+        onError?: (message: string) => void): string {
+
+    return text.replace(/<<([^>]*)>>/g, (placeholder: string, expression: string) => {
+        const [name, ...functionNames] = expression.split('|').map(part => part.trim());
+        if (!parameters.hasOwnProperty(name)) {
+            if (onError) {
+                onError(`Missing value for parameter "${name}"`);
+            }
+            return placeholder;
+        }
+
+        let value = String(parameters[name]);
+        for (let functionName of functionNames) {
+            const fn = parameterFunctions[functionName.replace(/^!/, '')];
+            if (!fn) {
+                if (onError) {
+                    onError(`Unknown parameter function "${functionName}"`);
+                }
+                return placeholder;
+            }
+            value = fn(value);
+        }
+        return value;
+    });
+}
+
+/** Returns the singular of an english noun, e.g. "users" => "user", "categories" => "category". */
+function singularize(word: string): string {
+    if (/[^aeiou]ies$/i.test(word)) {
+        return word.slice(0, -3) + 'y';
+    } else if (/(s|x|z|ch|sh)es$/i.test(word)) {
+        return word.slice(0, -2);
+    } else if (/[^s]s$/i.test(word)) {
+        return word.slice(0, -1);
+    }
+    return word;
+}
+
+/** Returns the plural of an english noun, e.g. "user" => "users", "category" => "categories". */
+function pluralize(word: string): string {
+    if (/[^aeiou]y$/i.test(word)) {
+        return word.slice(0, -1) + 'ies';
+    } else if (/(s|x|z|ch|sh)$/i.test(word)) {
+        return word + 'es';
+    }
+    return word + 's';
+}
+
+/** Splits camelCase, snake_case and hyphen-case identifiers into lowercase words. */
+function splitWords(value: string): string[] {
+    return value
+        .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+        .split(/[^a-zA-Z0-9]+/)
+        .filter(word => word !== '')
+        .map(word => word.toLowerCase());
+}
+
+function capitalize(word: string): string {
+    return word.charAt(0).toUpperCase() + word.substr(1);
+}